@@ -0,0 +1,68 @@
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
+import { Mutex } from "@nivinjoseph/n-util";
+import { DateTime } from "luxon";
+import { FileLogger, FileLoggerConfig } from "../src/index.js";
+
+/**
+ * Compares the write throughput of FileLogger with the appendFile per line it used before buffered writes.
+ * Timings depend on the machine, so this runs as a script ("yarn benchmark") rather than as part of the tests.
+ */
+
+const lineCount = 5000;
+
+/**
+ * The write path FileLogger used before buffered writes: one mutex protected appendFile per line.
+ * Lines are timestamped the same way as log records so only the write path differs.
+ */
+async function writeWithAppendFile(logDirPath: string): Promise<void>
+{
+    const mutex = new Mutex();
+    const filePath = Path.join(logDirPath, "append-file.log");
+
+    await Promise.all(Array.from({ length: lineCount }, async (_, i) =>
+    {
+        await mutex.lock();
+        try
+        {
+            await Fs.promises.appendFile(filePath, `\n${DateTime.now().toUTC().toISO()} APP INFO: message number ${i}`);
+        }
+        finally
+        {
+            mutex.release();
+        }
+    }));
+}
+
+async function writeWithFileLogger(logDirPath: string, durability: FileLoggerConfig["durability"]): Promise<void>
+{
+    const logger = new FileLogger({ logDirPath, retentionDays: 1, fileNamePrefix: `file-logger-${durability}-`, durability });
+
+    await Promise.all(Array.from({ length: lineCount }, async (_, i) => logger.logInfo(`message number ${i}`)));
+
+    await logger.dispose();
+}
+
+async function measure(name: string, write: () => Promise<void>): Promise<void>
+{
+    const start = performance.now();
+    await write();
+    const elapsed = performance.now() - start;
+
+    console.log(`${name}: ${lineCount} lines in ${elapsed.toFixed(0)}ms (${Math.round(lineCount / elapsed * 1000)} lines/s)`);
+}
+
+
+const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+try
+{
+    await measure("appendFile per line", () => writeWithAppendFile(logDirPath));
+    await measure("FileLogger (durability: write)", () => writeWithFileLogger(logDirPath, "write"));
+    await measure("FileLogger (durability: none)", () => writeWithFileLogger(logDirPath, "none"));
+    await measure("FileLogger (durability: periodic)", () => writeWithFileLogger(logDirPath, "periodic"));
+}
+finally
+{
+    Fs.rmSync(logDirPath, { recursive: true, force: true });
+}
\ No newline at end of file
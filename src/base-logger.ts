@@ -1,29 +1,55 @@
 import { ConfigurationManager } from "@nivinjoseph/n-config";
 import { Exception } from "@nivinjoseph/n-exception";
 import { SpanStatusCode, context, isSpanContextValid, trace } from "@opentelemetry/api";
+import { ChildLogger } from "./child-logger.js";
+import { JsonLogFormatter } from "./json-log-formatter.js";
+import { LogContext } from "./log-context.js";
 import { LogDateTimeZone } from "./log-date-time-zone.js";
+import { LogFields } from "./log-fields.js";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
 import { LogRecord } from "./log-record.js";
+import { LogRecordFields } from "./log-record-fields.js";
 import { Logger } from "./logger.js";
 import { LoggerConfig } from "./logger-config.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { Redactor } from "./redactor.js";
+import { TextLogFormatter } from "./text-log-formatter.js";
 import { DateTime } from "luxon";
-import { ensureExhaustiveCheck } from "@nivinjoseph/n-defensive";
+import { ensureExhaustiveCheck, given } from "@nivinjoseph/n-defensive";
+
+type SerializedError = {
+    kind: string;
+    message: string;
+    stack?: string;
+    cause?: SerializedError;
+};
 
 /**
  * Abstract base class that provides common logging functionality.
  * Implements the Logger interface and provides shared functionality for all logger implementations.
- * Handles common tasks like timestamp formatting, error message extraction, and trace injection.
+ * Handles common tasks like timestamp formatting, error message extraction, trace injection,
+ * merging of LogContext and structured fields, redaction of secrets and PII, and rate limiting.
  */
 export abstract class BaseLogger implements Logger
 {
+    private static readonly _maxErrorCauseDepth = 10;
+    private static readonly _levels: ReadonlyArray<LogLevel> = [LogLevel.trace, LogLevel.debug, LogLevel.info,
+        LogLevel.warn, LogLevel.error, LogLevel.fatal];
+
     // eslint-disable-next-line @typescript-eslint/naming-convention
     private readonly _UINT_MAX = 4294967296;
     private readonly _source = "nodejs";
     private readonly _service = ConfigurationManager.getConfig<string | null>("package_name") ?? ConfigurationManager.getConfig<string | null>("package.name") ?? "n-log";
     private readonly _env = ConfigurationManager.getConfig<string | null>("env")?.toLowerCase() ?? "dev";
-    private readonly _logDateTimeZone: LogDateTimeZone;
+    private readonly _logDateTimeZone: string;
+    private readonly _minLevel: LogLevel;
     private readonly _useJsonFormat: boolean;
+    private readonly _formatter: LogFormatter;
     private readonly _logInjector: ((record: LogRecord) => LogRecord) | null;
     private readonly _enableOtelToDatadogTraceConversion: boolean;
+    private readonly _redactor: Redactor | null;
+    private readonly _rateLimiter: RateLimiter | null;
 
     /**
      * Gets the source identifier for logs (default: "nodejs")
@@ -40,11 +66,26 @@ export abstract class BaseLogger implements Logger
      */
     protected get env(): string { return this._env; }
 
+    /**
+     * Gets the timezone of log timestamps
+     */
+    protected get logDateTimeZone(): string { return this._logDateTimeZone; }
+
+    /**
+     * Gets the minimum level a log call must have to be emitted
+     */
+    protected get minLevel(): LogLevel { return this._minLevel; }
+
     /**
      * Gets whether JSON format is enabled for logs
      */
     protected get useJsonFormat(): boolean { return this._useJsonFormat; }
 
+    /**
+     * Gets the formatter that renders log records
+     */
+    protected get formatter(): LogFormatter { return this._formatter; }
+
     /**
      * Gets the log record injector function if configured
      */
@@ -54,55 +95,111 @@ export abstract class BaseLogger implements Logger
     /**
      * Creates a new instance of BaseLogger
      * @param config - Optional configuration for the logger
-     * @param config.logDateTimeZone - The timezone to use for log timestamps (default: UTC)
+     * @param config.logDateTimeZone - The timezone to use for log timestamps, a LogDateTimeZone or any IANA zone name (default: UTC, also used when empty)
+     * @param config.minLevel - The minimum level to emit (default: "logLevel" config, else Debug in dev and Info otherwise)
      * @param config.useJsonFormat - Whether to format logs as JSON (default: false)
-     * @param config.logInjector - Function to inject additional data into log records (only used when useJsonFormat is true)
+     * @param config.formatter - Formatter that renders log records (default: JSON or plain text depending on useJsonFormat)
+     * @param config.logInjector - Function to inject additional data into log records (only used with structured formats)
      * @param config.enableOtelToDatadogTraceConversion - Whether to enable OpenTelemetry to Datadog trace ID conversion
+     * @param config.redaction - Redaction of secrets and PII from messages and fields (default: none)
+     * @param config.rateLimit - Rate limiting of records with the same level and message fingerprint (default: none)
      */
     public constructor(config?: LoggerConfig)
     {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        const { logDateTimeZone, useJsonFormat, logInjector, enableOtelToDatadogTraceConversion } = config ?? {};
+        const { logDateTimeZone, minLevel, useJsonFormat, formatter, logInjector, enableOtelToDatadogTraceConversion, redaction,
+            rateLimit } = config ?? {};
 
-        if (!logDateTimeZone || logDateTimeZone.isEmptyOrWhiteSpace() ||
-            ![LogDateTimeZone.utc, LogDateTimeZone.local, LogDateTimeZone.est, LogDateTimeZone.pst].contains(logDateTimeZone))
-        {
-            this._logDateTimeZone = LogDateTimeZone.utc;
-        }
-        else
-        {
-            this._logDateTimeZone = logDateTimeZone;
-        }
+        // an empty zone falls back to UTC
+        given(logDateTimeZone, "logDateTimeZone").ensureIsString()
+            .ensure(t => t.isEmptyOrWhiteSpace() || DateTime.now().setZone(t.trim()).isValid, "must be a valid IANA time zone");
+        this._logDateTimeZone = logDateTimeZone != null && logDateTimeZone.isNotEmptyOrWhiteSpace()
+            ? logDateTimeZone.trim() : LogDateTimeZone.utc;
+
+        given(minLevel, "minLevel").ensureIsEnum(LogLevel);
+        this._minLevel = minLevel ?? this._getConfiguredMinLevel();
 
         this._useJsonFormat = !!useJsonFormat;
+
+        given(formatter, "formatter").ensureIsObject();
+        this._formatter = formatter ?? (this._useJsonFormat ? new JsonLogFormatter() : new TextLogFormatter());
         this._logInjector = logInjector ?? null;
 
         this._enableOtelToDatadogTraceConversion = !!enableOtelToDatadogTraceConversion;
+
+        given(redaction, "redaction").ensureIsObject();
+        this._redactor = redaction != null ? new Redactor(redaction) : null;
+
+        given(rateLimit, "rateLimit").ensureIsObject();
+        this._rateLimiter = rateLimit != null
+            ? new RateLimiter(rateLimit, (level, message, suppressedCount) => this._logSuppressed(level, message, suppressedCount))
+            : null;
+    }
+
+    /**
+     * Creates a child logger that attaches the given fields to every record it emits.
+     * The child delegates to this logger, so no additional resources are created.
+     * Children of children merge their fields, with the innermost child winning on conflicts.
+     * @param fields - The fields to attach to every record
+     * @returns A logger that attaches the fields to every record
+     */
+    public child(fields: LogFields): ChildLogger
+    {
+        return new ChildLogger(this, fields);
+    }
+
+    /**
+     * Checks whether a log call at the given level would be emitted.
+     * Useful to skip building expensive messages that would be discarded.
+     * @param level - The level to check
+     * @returns True if the level is at or above the configured minimum level
+     */
+    public isLevelEnabled(level: LogLevel): boolean
+    {
+        return BaseLogger._levels.indexOf(level) >= BaseLogger._levels.indexOf(this._minLevel);
     }
 
+    /**
+     * Logs a trace message
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     */
+    public abstract logTrace(trace: string, fields?: LogFields): Promise<void>;
+
     /**
      * Logs a debug message
      * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
      */
-    public abstract logDebug(debug: string): Promise<void>;
+    public abstract logDebug(debug: string, fields?: LogFields): Promise<void>;
 
     /**
      * Logs an informational message
      * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
      */
-    public abstract logInfo(info: string): Promise<void>;
+    public abstract logInfo(info: string, fields?: LogFields): Promise<void>;
 
     /**
      * Logs a warning message or exception
      * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      */
-    public abstract logWarning(warning: string | Exception): Promise<void>;
+    public abstract logWarning(warning: string | Exception, fields?: LogFields): Promise<void>;
 
     /**
      * Logs an error message or exception
      * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      */
-    public abstract logError(error: string | Exception): Promise<void>;
+    public abstract logError(error: string | Exception, fields?: LogFields): Promise<void>;
+
+    /**
+     * Logs a fatal message or exception
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     */
+    public abstract logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>;
 
     /**
      * Extracts an error message from an exception or error object
@@ -131,6 +228,90 @@ export abstract class BaseLogger implements Logger
         return logMessage;
     }
 
+    /**
+     * Gets the rank of a level, from 0 for Trace to 5 for Fatal
+     * @param level - The level of a log record (e.g. "Trace", "Debug", "Info", "Warn", "Error", "Fatal")
+     * @returns The rank of the level, or -1 if it is not a known level
+     */
+    protected getLevelRank(level: string): number
+    {
+        return BaseLogger._levels.indexOf(level as LogLevel);
+    }
+
+    /**
+     * Checks whether a log call exceeds the configured rate limit and should be dropped.
+     * Counts the call against the window of its level and message fingerprint, so it
+     * should only be called for log calls whose level is enabled.
+     * @param level - The level of the log call
+     * @param message - The message of the log call
+     * @returns True if the log call should be dropped
+     */
+    protected isRateLimited(level: LogLevel, message: string): boolean
+    {
+        return this._rateLimiter != null && !this._rateLimiter.tryAcquire(level, message);
+    }
+
+    /**
+     * Stops rate limiting and immediately logs the summaries of all messages suppressed in the current windows.
+     * Loggers that buffer records should call this before they stop accepting log calls.
+     */
+    protected disposeRateLimiter(): void
+    {
+        this._rateLimiter?.dispose();
+    }
+
+    /**
+     * Creates a log record for the given level and message, merging in the fields of the active
+     * LogContext followed by the structured fields of the log call.
+     * Fields never override the reserved record keys, a colliding field is kept under "fields.<key>".
+     * When redaction is configured, it is applied to the message and fields so every output format is covered.
+     * @param level - The log level (e.g. "Trace", "Debug", "Info", "Warn", "Error", "Fatal")
+     * @param message - The log message
+     * @param fields - Optional structured fields to merge into the record
+     * @returns The log record
+     */
+    protected createLogRecord(level: string, message: string, fields?: LogFields): LogRecord & Record<string, any>
+    {
+        const log: LogRecord & Record<string, any> = {
+            source: this.source,
+            service: this.service,
+            env: this.env,
+            level,
+            message: this._redactor != null ? this._redactor.redactString(message) : message,
+            ...this.getDateTime()
+        };
+
+        const contextFields = LogContext.current;
+        if (contextFields != null)
+            fields = fields != null ? { ...contextFields, ...fields } : contextFields;
+
+        if (fields != null && this._redactor != null)
+            fields = this._redactor.redactFields(fields);
+
+        if (fields != null)
+        {
+            Object.entries(fields).forEach(([key, value]) =>
+            {
+                if (value === undefined)
+                    return;
+
+                log[LogRecordFields.isReserved(key) ? `fields.${key}` : key] = value;
+            });
+        }
+
+        return log;
+    }
+
+    /**
+     * Renders the structured fields of a log record as key=value pairs for plain text output
+     * @param log - The log record whose non reserved keys should be rendered
+     * @returns The rendered fields prefixed with a space, or an empty string if there are none
+     */
+    protected formatFields(log: LogRecord): string
+    {
+        return LogRecordFields.format(log);
+    }
+
     /**
      * Gets the current date and time in the configured timezone
      * @returns ISO formatted date-time string
@@ -139,25 +320,7 @@ export abstract class BaseLogger implements Logger
     {
         const value = DateTime.now();
         const time = value.toUTC().toISO();
-
-        let dateTime: string;
-        switch (this._logDateTimeZone)
-        {
-            case LogDateTimeZone.utc:
-                dateTime = time;
-                break;
-            case LogDateTimeZone.local:
-                dateTime = value.toISO()!;
-                break;
-            case LogDateTimeZone.est:
-                dateTime = value.setZone("America/New_York").toISO()!;
-                break;
-            case LogDateTimeZone.pst:
-                dateTime = value.setZone("America/Los_Angeles").toISO()!;
-                break;
-            default:
-                ensureExhaustiveCheck(this._logDateTimeZone);
-        }
+        const dateTime = value.setZone(this._logDateTimeZone).toISO()!;
 
         return { dateTime, time };
     }
@@ -197,6 +360,48 @@ export abstract class BaseLogger implements Logger
         }
     }
 
+    /**
+     * Injects structured error attributes into a log record, following the Datadog and OpenTelemetry
+     * semantic conventions: "error.kind", "error.message" and "error.stack", plus the chain of
+     * Exception.innerException / Error.cause as nested objects under "error.cause".
+     * Redaction is applied to the messages and stacks. Does nothing if the logged value is not an Error.
+     * @param log - The log record to inject the error attributes into
+     * @param exp - The logged value
+     */
+    protected injectError(log: LogRecord & Record<string, any>, exp: unknown): void
+    {
+        if (!(exp instanceof Error))
+            return;
+
+        const { kind, message, stack, cause } = this._serializeError(exp, 0);
+
+        log["error.kind"] = kind;
+        log["error.message"] = message;
+        if (stack != null)
+            log["error.stack"] = stack;
+        if (cause != null)
+            log["error.cause"] = cause;
+    }
+
+    /**
+     * Resolves the minimum level from the "logLevel" configuration key, falling back to
+     * Debug in the dev environment and Info otherwise
+     * @returns The minimum level
+     */
+    private _getConfiguredMinLevel(): LogLevel
+    {
+        const logLevel = ConfigurationManager.getConfig<string | null>("logLevel");
+        if (logLevel == null || logLevel.isEmptyOrWhiteSpace())
+            return this._env === "dev" ? LogLevel.debug : LogLevel.info;
+
+        const value = logLevel.trim().toLowerCase();
+        const level = BaseLogger._levels.find(t => t.toLowerCase() === value || (t === LogLevel.warn && value === "warning"));
+
+        given(logLevel, "logLevel").ensure(_ => level != null, `must be one of ${BaseLogger._levels.join(", ")}`);
+
+        return level!;
+    }
+
     /**
      * Converts a buffer to a number string with the specified radix
      * @param buffer - The buffer to convert
@@ -310,4 +515,72 @@ export abstract class BaseLogger implements Logger
             (buffer[offset + 2] << 8) +
             buffer[offset + 3];
     }
+
+    /**
+     * Logs a summary of the records suppressed by the rate limiter at the level of the suppressed records
+     * @param level - The level of the suppressed records
+     * @param message - The message of the first suppressed record
+     * @param suppressedCount - The number of suppressed records
+     */
+    private _logSuppressed(level: LogLevel, message: string, suppressedCount: number): void
+    {
+        const newLineIndex = message.indexOf("\n");
+        const summary = `Suppressed ${suppressedCount.toLocaleString("en-US")} similar messages: ${newLineIndex >= 0 ? message.substring(0, newLineIndex) : message}`;
+        const fields = { suppressedCount };
+
+        let promise: Promise<void>;
+        switch (level)
+        {
+            case LogLevel.trace:
+                promise = this.logTrace(summary, fields);
+                break;
+            case LogLevel.debug:
+                promise = this.logDebug(summary, fields);
+                break;
+            case LogLevel.info:
+                promise = this.logInfo(summary, fields);
+                break;
+            case LogLevel.warn:
+                promise = this.logWarning(summary, fields);
+                break;
+            case LogLevel.error:
+                promise = this.logError(summary, fields);
+                break;
+            case LogLevel.fatal:
+                promise = this.logFatal(summary, fields);
+                break;
+            default:
+                ensureExhaustiveCheck(level);
+        }
+
+        promise.catch(e => console.error(e));
+    }
+
+    /**
+     * Serializes an error and the chain of its causes
+     * @param error - The error to serialize
+     * @param depth - The depth of the error in the chain of causes
+     * @returns The serialized error
+     */
+    private _serializeError(error: unknown, depth: number): SerializedError
+    {
+        const redact = (value: string): string => this._redactor != null ? this._redactor.redactString(value) : value;
+
+        if (!(error instanceof Error))
+            return { kind: typeof error, message: redact(String(error)) };
+
+        const serialized: SerializedError = {
+            kind: error.name,
+            message: redact(error.message)
+        };
+
+        if (error.stack != null)
+            serialized.stack = redact(error.stack);
+
+        // Exception.innerException is backed by Error.cause
+        if (error.cause != null && depth < BaseLogger._maxErrorCauseDepth)
+            serialized.cause = this._serializeError(error.cause, depth + 1);
+
+        return serialized;
+    }
 }
\ No newline at end of file
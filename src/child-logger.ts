@@ -0,0 +1,130 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { Exception } from "@nivinjoseph/n-exception";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
+import { Logger } from "./logger.js";
+
+/**
+ * Logger that attaches a fixed set of bound fields to every record it emits.
+ * Created through BaseLogger.child(), it delegates to the parent logger so all
+ * children share the parent's resources (streams, mutexes, timers, queues).
+ * Fields passed to an individual log call take precedence over the bound fields.
+ */
+export class ChildLogger implements Logger
+{
+    private readonly _parent: Logger;
+    private readonly _fields: LogFields;
+
+    /**
+     * Gets the fields bound to this logger
+     */
+    public get fields(): LogFields { return this._fields; }
+
+
+    /**
+     * Creates a new instance of ChildLogger
+     * @param parent - The logger that records are delegated to
+     * @param fields - The fields to attach to every record
+     */
+    public constructor(parent: Logger, fields: LogFields)
+    {
+        given(parent, "parent").ensureHasValue().ensureIsObject();
+        this._parent = parent;
+
+        given(fields, "fields").ensureHasValue().ensureIsObject();
+        this._fields = { ...fields };
+    }
+
+    /**
+     * Creates a child of this logger, merging the given fields over the fields bound to this logger
+     * @param fields - The fields to attach to every record
+     * @returns A logger that attaches the merged fields to every record
+     */
+    public child(fields: LogFields): ChildLogger
+    {
+        given(fields, "fields").ensureHasValue().ensureIsObject();
+
+        return new ChildLogger(this._parent, { ...this._fields, ...fields });
+    }
+
+    /**
+     * Checks whether a log call at the given level would be emitted by the parent logger
+     * @param level - The level to check
+     * @returns True if a log call at the level would be emitted
+     */
+    public isLevelEnabled(level: LogLevel): boolean
+    {
+        return this._parent.isLevelEnabled(level);
+    }
+
+    /**
+     * Logs a trace message with the bound fields
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logTrace(trace, this._mergeFields(fields));
+    }
+
+    /**
+     * Logs a debug message with the bound fields
+     * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logDebug(debug: string, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logDebug(debug, this._mergeFields(fields));
+    }
+
+    /**
+     * Logs an informational message with the bound fields
+     * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logInfo(info: string, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logInfo(info, this._mergeFields(fields));
+    }
+
+    /**
+     * Logs a warning message or exception with the bound fields
+     * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logWarning(warning, this._mergeFields(fields));
+    }
+
+    /**
+     * Logs an error message or exception with the bound fields
+     * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logError(error: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logError(error, this._mergeFields(fields));
+    }
+
+    /**
+     * Logs a fatal message or exception with the bound fields
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    public logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._parent.logFatal(fatal, this._mergeFields(fields));
+    }
+
+    private _mergeFields(fields: LogFields | undefined): LogFields
+    {
+        return fields != null ? { ...this._fields, ...fields } : this._fields;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { Exception } from "@nivinjoseph/n-exception";
+import { Disposable } from "@nivinjoseph/n-util";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
+import { Logger } from "./logger.js";
+
+/**
+ * A logger that the composite logger fans out to
+ */
+export type CompositeLoggerSink = {
+    /** The logger to forward log calls to */
+    logger: Logger;
+    /** Minimum level a log call must have to be forwarded to this logger (default: all levels) */
+    minLevel?: LogLevel;
+    /** Custom predicate that decides whether a log call is forwarded to this logger */
+    predicate?(level: LogLevel, message: string | Exception, fields?: LogFields): boolean;
+};
+
+/**
+ * Configuration options for the composite logger
+ */
+export type CompositeLoggerConfig = {
+    /** The loggers to fan out to */
+    sinks: ReadonlyArray<CompositeLoggerSink>;
+};
+
+/**
+ * Logger implementation that fans out every log call to multiple loggers.
+ * Features:
+ * - Per logger minimum level and predicate
+ * - Loggers are called concurrently and log calls do not wait for them, so a slow logger holds up neither the caller nor the others
+ * - Failures are isolated per logger and reported to stderr
+ * - Waits for pending log calls and disposes every logger that is Disposable (e.g. SlackLogger) on dispose
+ */
+export class CompositeLogger implements Logger, Disposable
+{
+    // declaration order of LogLevel is the severity order
+    private static readonly _levels: ReadonlyArray<LogLevel> = Object.values(LogLevel);
+
+    private readonly _sinks: ReadonlyArray<CompositeLoggerSink>;
+    private readonly _pendingWrites = new Set<Promise<void>>();
+    private _disposePromise: Promise<void> | null = null;
+
+    /**
+     * Creates a new instance of CompositeLogger
+     * @param config - Configuration for the composite logger
+     */
+    public constructor(config: CompositeLoggerConfig)
+    {
+        given(config, "config").ensureHasValue().ensureIsObject();
+
+        const { sinks } = config;
+        given(sinks, "sinks").ensureHasValue().ensureIsArray();
+
+        sinks.forEach((t, index) =>
+        {
+            given(t, `sinks[${index}]`).ensureHasValue().ensureIsObject();
+            given(t.logger, `sinks[${index}].logger`).ensureHasValue().ensureIsObject();
+            given(t.minLevel, `sinks[${index}].minLevel`).ensureIsEnum(LogLevel);
+            // eslint-disable-next-line @typescript-eslint/unbound-method
+            given(t.predicate, `sinks[${index}].predicate`).ensureIsFunction();
+        });
+
+        this._sinks = [...sinks];
+    }
+
+    /**
+     * Checks whether a log call at the given level would be emitted by at least one logger
+     * @param level - The level to check
+     * @returns True if a log call at the level would be emitted
+     */
+    public isLevelEnabled(level: LogLevel): boolean
+    {
+        return this._sinks.some(t => this._isSinkLevelEnabled(t, level) && t.logger.isLevelEnabled(level));
+    }
+
+    /**
+     * Logs a trace message to all matching loggers
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.trace, trace, fields, t => t.logTrace(trace, fields));
+    }
+
+    /**
+     * Logs a debug message to all matching loggers
+     * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logDebug(debug: string, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.debug, debug, fields, t => t.logDebug(debug, fields));
+    }
+
+    /**
+     * Logs an informational message to all matching loggers
+     * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logInfo(info: string, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.info, info, fields, t => t.logInfo(info, fields));
+    }
+
+    /**
+     * Logs a warning message or exception to all matching loggers
+     * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.warn, warning, fields, t => t.logWarning(warning, fields));
+    }
+
+    /**
+     * Logs an error message or exception to all matching loggers
+     * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logError(error: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.error, error, fields, t => t.logError(error, fields));
+    }
+
+    /**
+     * Logs a fatal message or exception to all matching loggers
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    public logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        return this._forward(LogLevel.fatal, fatal, fields, t => t.logFatal(fatal, fields));
+    }
+
+    /**
+     * Waits for pending log calls, then disposes every logger that is Disposable.
+     * A failure to dispose one logger does not prevent the others from being disposed.
+     * @returns A promise that resolves when disposal is complete
+     */
+    public dispose(): Promise<void>
+    {
+        if (this._disposePromise == null)
+        {
+            this._disposePromise = Promise.all(this._pendingWrites)
+                .then(() => Promise.allSettled(this._sinks
+                    .map(t => t.logger as Logger & Partial<Disposable>)
+                    .filter(t => typeof t.dispose === "function")
+                    .map(async t => t.dispose!())))
+                .then(results => results.forEach(t =>
+                {
+                    if (t.status === "rejected")
+                        console.error("CompositeLogger: error while disposing logger.", t.reason);
+                }));
+        }
+
+        return this._disposePromise;
+    }
+
+    /**
+     * Forwards a log call to every logger whose minimum level and predicate match.
+     * Loggers are called concurrently and the returned promise does not wait for them to finish,
+     * so a slow logger does not hold up the caller. Failures, including a throwing predicate, are reported
+     * to stderr and do not prevent the other loggers from being called.
+     * @param level - The level of the log call
+     * @param message - The message or exception of the log call
+     * @param fields - The structured fields of the log call
+     * @param log - Performs the log call on a logger
+     * @returns A promise that resolves immediately, without waiting for the loggers
+     */
+    private _forward(level: LogLevel, message: string | Exception, fields: LogFields | undefined,
+        log: (logger: Logger) => Promise<void>): Promise<void>
+    {
+        this._sinks.forEach(sink =>
+        {
+            if (!this._isSinkLevelEnabled(sink, level))
+                return;
+
+            let write: Promise<void>;
+            try
+            {
+                if (sink.predicate != null && !sink.predicate(level, message, fields))
+                    return;
+
+                write = log(sink.logger);
+            }
+            catch (error)
+            {
+                write = Promise.reject(error);
+            }
+
+            const pendingWrite: Promise<void> = write
+                .catch(e => console.error("CompositeLogger: error while writing to logger.", e))
+                .finally(() => this._pendingWrites.delete(pendingWrite));
+            this._pendingWrites.add(pendingWrite);
+        });
+
+        return Promise.resolve();
+    }
+
+    private _isSinkLevelEnabled(sink: CompositeLoggerSink, level: LogLevel): boolean
+    {
+        return sink.minLevel == null
+            || CompositeLogger._levels.indexOf(level) >= CompositeLogger._levels.indexOf(sink.minLevel);
+    }
+}
\ No newline at end of file
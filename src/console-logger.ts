@@ -1,55 +1,51 @@
 import { Exception } from "@nivinjoseph/n-exception";
 import { BaseLogger } from "./base-logger.js";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
 import { LogPrefix } from "./log-prefix.js";
 import { LogRecord } from "./log-record.js";
-import chalk from "chalk";
+import chalk, { ChalkInstance } from "chalk";
 
 /**
  * Logger implementation that writes logs to the console (stdout).
- * Supports both plain text and JSON formatting.
- * In plain text mode, uses colors to distinguish between different log levels:
+ * Supports plain text, JSON and custom formats through a LogFormatter.
+ * Output of plain text formatters is colored to distinguish between different log levels:
+ * - Trace: Gray
  * - Info: Blue
  * - Warning: Yellow
  * - Error: Red
- * Debug logs are only output in development environment.
+ * - Fatal: White on red
+ * Structured fields are merged into the record in structured formats and appended as key=value pairs in plain text mode.
+ * Only logs at or above the configured minimum level are output (by default Debug only in development environment).
  */
 export class ConsoleLogger extends BaseLogger
 {
     private readonly _stream = process.stdout;
 
+    /**
+     * Logs a trace message to the console in gray.
+     * Only outputs when the trace level is enabled.
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written
+     */
+    public logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        this._writeToStream(LogLevel.trace, LogPrefix.trace, chalk.gray, trace, fields);
+
+        return Promise.resolve();
+    }
+
     /**
      * Logs a debug message to the console.
-     * Only outputs in development environment.
+     * Only outputs when the debug level is enabled.
      * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is written
      */
-    public logDebug(debug: string): Promise<void>
+    public logDebug(debug: string, fields?: LogFields): Promise<void>
     {
-        if (this.env === "dev")
-        {
-            if (this.useJsonFormat)
-            {
-                let log: LogRecord = {
-                    source: this.source,
-                    service: this.service,
-                    env: this.env,
-                    level: "Debug",
-                    message: debug,
-                    ...this.getDateTime()
-                };
-
-                this.injectTrace(log);
-
-                if (this.logInjector)
-                    log = this.logInjector(log);
-
-                this._stream.write(JSON.stringify(log) + "\n");
-            }
-            else
-            {
-                this._stream.write(`${this.getDateTime().dateTime} ${LogPrefix.debug} ${debug}\n`);
-            }
-        }
+        this._writeToStream(LogLevel.debug, LogPrefix.debug, null, debug, fields);
 
         return Promise.resolve();
     }
@@ -57,32 +53,12 @@ export class ConsoleLogger extends BaseLogger
     /**
      * Logs an informational message to the console in blue.
      * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is written
      */
-    public logInfo(info: string): Promise<void>
+    public logInfo(info: string, fields?: LogFields): Promise<void>
     {
-        if (this.useJsonFormat)
-        {
-            let log: LogRecord = {
-                source: this.source,
-                service: this.service,
-                env: this.env,
-                level: "Info",
-                message: info,
-                ...this.getDateTime()
-            };
-
-            this.injectTrace(log);
-
-            if (this.logInjector)
-                log = this.logInjector(log);
-
-            this._stream.write(JSON.stringify(log) + "\n");
-        }
-        else
-        {
-            this._stream.write(chalk.blue(`${this.getDateTime().dateTime} ${chalk.bold(LogPrefix.info)} ${info}\n`));
-        }
+        this._writeToStream(LogLevel.info, LogPrefix.info, chalk.blue, info, fields);
 
         return Promise.resolve();
     }
@@ -90,32 +66,12 @@ export class ConsoleLogger extends BaseLogger
     /**
      * Logs a warning message or exception to the console in yellow.
      * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is written
      */
-    public logWarning(warning: string | Exception): Promise<void>
+    public logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
     {
-        if (this.useJsonFormat)
-        {
-            let log: LogRecord = {
-                source: this.source,
-                service: this.service,
-                env: this.env,
-                level: "Warn",
-                message: this.getErrorMessage(warning),
-                ...this.getDateTime()
-            };
-
-            this.injectTrace(log);
-
-            if (this.logInjector)
-                log = this.logInjector(log);
-
-            this._stream.write(JSON.stringify(log) + "\n");
-        }
-        else
-        {
-            this._stream.write(chalk.yellow(`${this.getDateTime().dateTime} ${chalk.bold(LogPrefix.warning)} ${this.getErrorMessage(warning)}\n`));
-        }
+        this._writeToStream(LogLevel.warn, LogPrefix.warning, chalk.yellow, this.getErrorMessage(warning), fields, warning);
 
         return Promise.resolve();
     }
@@ -123,33 +79,62 @@ export class ConsoleLogger extends BaseLogger
     /**
      * Logs an error message or exception to the console in red.
      * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is written
      */
-    public logError(error: string | Exception): Promise<void>
+    public logError(error: string | Exception, fields?: LogFields): Promise<void>
     {
-        if (this.useJsonFormat)
-        {
-            let log: LogRecord = {
-                source: this.source,
-                service: this.service,
-                env: this.env,
-                level: "Error",
-                message: this.getErrorMessage(error),
-                ...this.getDateTime()
-            };
+        this._writeToStream(LogLevel.error, LogPrefix.error, chalk.red, this.getErrorMessage(error), fields, error);
 
-            this.injectTrace(log, true);
+        return Promise.resolve();
+    }
+
+    /**
+     * Logs a fatal message or exception to the console in white on red.
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written
+     */
+    public logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        this._writeToStream(LogLevel.fatal, LogPrefix.fatal, chalk.white.bgRed, this.getErrorMessage(fatal), fields, fatal);
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Writes a log record to the stream using the configured formatter.
+     * Output of plain text formatters is colored by level, with the level prefix in bold.
+     * Does nothing if the level is not enabled or the rate limit is exceeded.
+     * @param level - The log level
+     * @param prefix - The level prefix of plain text output
+     * @param color - The color used for plain text output, null for the default color
+     * @param message - The message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @param exp - The logged exception, if any, serialized into the error attributes of structured formats
+     */
+    private _writeToStream(level: LogLevel, prefix: LogPrefix, color: ChalkInstance | null,
+        message: string, fields: LogFields | undefined, exp?: string | Exception): void
+    {
+        if (!this.isLevelEnabled(level) || this.isRateLimited(level, message))
+            return;
+
+        let log: LogRecord = this.createLogRecord(level, message, fields);
+
+        if (this.formatter.isStructured)
+        {
+            this.injectTrace(log, level === LogLevel.error || level === LogLevel.fatal);
+            this.injectError(log, exp);
 
             if (this.logInjector)
                 log = this.logInjector(log);
 
-            this._stream.write(JSON.stringify(log) + "\n");
+            this._stream.write(this.formatter.format(log) + "\n");
         }
         else
         {
-            this._stream.write(chalk.red(`${this.getDateTime().dateTime} ${chalk.bold(LogPrefix.error)} ${this.getErrorMessage(error)}\n`));
+            const line = this.formatter.format(log);
+            this._stream.write(color != null ? color(line.replace(prefix, chalk.bold(prefix))) + "\n" : line + "\n");
         }
-
-        return Promise.resolve();
     }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { ConfigurationManager } from "@nivinjoseph/n-config";
+import { given } from "@nivinjoseph/n-defensive";
+import Os from "node:os";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Configuration options for the Datadog formatter
+ */
+export interface DatadogLogFormatterConfig
+{
+    /**
+     * The host reported in every record
+     * @default the OS host name
+     */
+    host?: string;
+
+    /**
+     * The version of the service, reported as "version" and as the "version" tag
+     * @default the "package_version" or "package.version" configuration key
+     */
+    version?: string;
+
+    /**
+     * Additional tags added to "ddtags" (e.g. { team: "payments" })
+     */
+    tags?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Formatter for JSON records following the Datadog log conventions, so no remapping is
+ * needed in the log pipeline. Emits the reserved attributes "date", "status", "host",
+ * "service", "version", "ddsource" and "ddtags", the "dd.trace_id" and "dd.span_id"
+ * correlation ids, and the structured "error.*" attributes. Structured fields are kept as top level fields.
+ * @see https://docs.datadoghq.com/logs/log_configuration/attributes_naming_convention/
+ */
+export class DatadogLogFormatter implements LogFormatter
+{
+    private static readonly _statuses: Readonly<Record<string, string>> = {
+        [LogLevel.trace]: "trace",
+        [LogLevel.debug]: "debug",
+        [LogLevel.info]: "info",
+        [LogLevel.warn]: "warn",
+        [LogLevel.error]: "error",
+        [LogLevel.fatal]: "critical"
+    };
+
+    private readonly _host: string;
+    private readonly _version: string | null;
+    private readonly _tags: string;
+
+
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Creates a new instance of DatadogLogFormatter
+     * @param config - Configuration for the Datadog formatter
+     */
+    public constructor(config: DatadogLogFormatterConfig = {})
+    {
+        given(config, "config").ensureHasValue().ensureIsObject();
+
+        const { host, version, tags } = config;
+
+        given(host, "host").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._host = host?.trim() ?? Os.hostname();
+
+        given(version, "version").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._version = version?.trim() ?? ConfigurationManager.getConfig<string | null>("package_version")
+            ?? ConfigurationManager.getConfig<string | null>("package.version");
+
+        given(tags, "tags").ensureIsObject();
+        this._tags = Object.entries(tags ?? {}).map(([key, value]) => `${key}:${value}`).join(",");
+    }
+
+
+    /**
+     * Renders a log record as single line Datadog JSON
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const { time, level, message, source, service, env, dateTime: _, ...rest } = record as LogRecord & Record<string, unknown>;
+
+        const tags = [`env:${env}`];
+        if (this._version != null)
+            tags.push(`version:${this._version}`);
+        if (this._tags.length > 0)
+            tags.push(this._tags);
+
+        const ddRecord: Record<string, unknown> = {
+            "date": time,
+            "status": DatadogLogFormatter._statuses[level] ?? level.toLowerCase(),
+            "message": message,
+            "host": this._host,
+            "service": service,
+            "ddsource": source
+        };
+
+        if (this._version != null)
+            ddRecord["version"] = this._version;
+
+        ddRecord["ddtags"] = tags.join(",");
+
+        // the correlation ids are derived from the OpenTelemetry ids unless the logger already converted them
+        const traceId = rest["trace_id"];
+        const spanId = rest["span_id"];
+        if (rest["dd.trace_id"] === undefined && typeof traceId === "string" && typeof spanId === "string"
+            && /^[\da-f]+$/i.test(traceId) && /^[\da-f]{1,16}$/i.test(spanId))
+        {
+            ddRecord["dd.trace_id"] = this._toDecimal(traceId.slice(-16));
+            ddRecord["dd.span_id"] = this._toDecimal(spanId);
+        }
+
+        Object.entries(rest).forEach(([key, value]) => ddRecord[key] = value);
+
+        return JSON.stringify(ddRecord);
+    }
+
+    /**
+     * Converts a hex id to the unsigned 64 bit decimal id Datadog correlates on
+     * @param hexId - The hex id of at most 16 characters
+     * @returns The decimal id
+     */
+    private _toDecimal(hexId: string): string
+    {
+        return BigInt(`0x${hexId}`).toString();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { LogFormatter } from "./log-formatter.js";
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Formatter for the Elastic Common Schema (ECS) JSON format.
+ * Maps the record to the ECS fields "@timestamp", "log.level", "message", "ecs.version",
+ * "labels.source", "service.name", "service.environment", "trace.id", "span.id", "error.type",
+ * "error.message" and "error.stack_trace". Structured fields are kept as top level fields.
+ * @see https://www.elastic.co/guide/en/ecs/current/index.html
+ */
+export class EcsLogFormatter implements LogFormatter
+{
+    private static readonly _ecsVersion = "8.11.0";
+    // ECS defines "source" as an object (source.ip, source.port, ...), so the runtime is kept as a label
+    private static readonly _keyMap: Readonly<Record<string, string>> = {
+        "source": "labels.source",
+        "service": "service.name",
+        "env": "service.environment",
+        "trace_id": "trace.id",
+        "span_id": "span.id",
+        "error.kind": "error.type",
+        "error.stack": "error.stack_trace"
+    };
+
+
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Renders a log record as single line ECS JSON
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const { time, level, message, dateTime: _, ...rest } = record as LogRecord & Record<string, unknown>;
+
+        const ecsRecord: Record<string, unknown> = {
+            "@timestamp": time,
+            "log.level": level.toLowerCase(),
+            "message": message,
+            "ecs.version": EcsLogFormatter._ecsVersion
+        };
+
+        Object.entries(rest).forEach(([key, value]) =>
+        {
+            ecsRecord[EcsLogFormatter._keyMap[key] as string | undefined ?? key] = value;
+        });
+
+        return JSON.stringify(ecsRecord);
+    }
+}
\ No newline at end of file
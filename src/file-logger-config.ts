@@ -11,8 +11,74 @@ export interface FileLoggerConfig extends LoggerConfig
     logDirPath: string;
 
     /**
-     * Number of days to retain log files before automatic deletion
+     * Number of days to retain log files before automatic deletion. The age of a file is taken
+     * from the date in its name, and only files matching the logger's naming pattern are deleted.
      * Must be greater than 0
      */
     retentionDays: number;
+
+    /**
+     * Prefix prepended to every log file name (e.g. "billing-" results in "billing-2024-01-31T13.log")
+     * Allows several services to share a log directory. Must not contain path separators.
+     * @default ""
+     */
+    fileNamePrefix?: string;
+
+    /**
+     * Whether a new log file is started every hour (YYYY-MM-DDTHH.log) or every day (YYYY-MM-DD.log)
+     * @default "hourly"
+     */
+    rotationInterval?: "hourly" | "daily";
+
+    /**
+     * Maximum size in bytes of a single log file. Once a file would grow beyond this size,
+     * writing rolls over to a new file with an increasing index (e.g. .1.log, .2.log)
+     * Must be greater than 0
+     * @default no limit
+     */
+    maxFileSizeBytes?: number;
+
+    /**
+     * Whether completed log files (previous hours/days and rolled over files) are gzipped in the background
+     * The compressed files (.log.gz) are subject to the same retention as uncompressed ones.
+     * The file currently being written to is never compressed.
+     * @default false
+     */
+    compressRotated?: boolean;
+
+    /**
+     * Maximum combined size of all log files in the directory. When exceeded, the oldest files
+     * are deleted first until the directory is back within budget. The active file is never deleted.
+     * Checked whenever a new log file is opened
+     * @default no limit
+     */
+    maxTotalSizeBytes?: number;
+
+    /**
+     * Seconds between scheduled writes of buffered log lines to the active file
+     * Must be greater than 0
+     * @default 1
+     */
+    flushIntervalSeconds?: number;
+
+    /**
+     * Number of buffered log lines that triggers an immediate write. Log calls made while
+     * the buffer is full wait for the write to complete, which applies backpressure to callers.
+     * Must be greater than 0
+     * @default 1000
+     */
+    maxBufferedLines?: number;
+
+    /**
+     * Durability of written log lines
+     * - "write": every log call is written before the returned promise resolves, concurrent calls are written
+     *   together and the OS decides when they reach the disk
+     * - "none": lines are buffered and written periodically, the OS decides when they reach the disk.
+     *   Log calls resolve before their line is written, so buffered lines are lost if the process
+     *   exits (e.g. through process.exit()) without flush() or dispose()
+     * - "periodic": lines are buffered and written periodically, every write is followed by an fsync
+     * - "line": every log call is written and fsynced before the returned promise resolves
+     * @default "write"
+     */
+    durability?: "write" | "none" | "periodic" | "line";
 }
\ No newline at end of file
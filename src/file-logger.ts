@@ -1,45 +1,96 @@
-import { given } from "@nivinjoseph/n-defensive";
+import { ensureExhaustiveCheck, given } from "@nivinjoseph/n-defensive";
 import { Exception } from "@nivinjoseph/n-exception";
 import "@nivinjoseph/n-ext";
-import { Duration, Make, Mutex } from "@nivinjoseph/n-util";
+import { Disposable, Duration, Mutex } from "@nivinjoseph/n-util";
+import { DateTime } from "luxon";
 import Fs from "node:fs";
 import Path from "node:path";
+import { pipeline } from "node:stream/promises";
+import Zlib from "node:zlib";
 import { BaseLogger } from "./base-logger.js";
 import { FileLoggerConfig } from "./file-logger-config.js";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
 import { LogPrefix } from "./log-prefix.js";
 import { LogRecord } from "./log-record.js";
 
 /**
  * Logger implementation that writes logs to files.
  * Features:
- * - Logs are written to files named by hour (YYYY-MM-DD-HH.log)
- * - Supports both plain text and JSON formatting
+ * - Logs are written to files named by hour (YYYY-MM-DDTHH.log) or by day (YYYY-MM-DD.log) in the configured timezone
+ * - Configurable file name prefix so several services can share a log directory
+ * - Size based rollover to indexed files (YYYY-MM-DDTHH.1.log, YYYY-MM-DDTHH.2.log, ...)
+ * - Optional background gzip compression of completed log files
+ * - Supports plain text, JSON and custom formats through a LogFormatter
+ * - Structured fields merged into JSON records or appended as key=value pairs
+ * - Buffered batch writes through a long-lived write stream per active file, with backpressure
+ * - Log calls resolve once their line is written by default, with concurrent calls written as a single batch
+ * - Configurable durability, from fsync after every line to periodic writes of buffered lines
+ * - Buffered lines are flushed on flush(), dispose() and before the process exits
  * - Automatic log file rotation
- * - Configurable log retention period
+ * - Configurable log retention period based on the date in the file name, and an optional total size cap
  * - Thread-safe writing using mutex
- * - Debug logs only written in development environment
+ * - Only logs at or above the configured minimum level are written (by default Debug only in development environment)
  */
-export class FileLogger extends BaseLogger
+export class FileLogger extends BaseLogger implements Disposable
 {
+    private static readonly _instances = new Set<FileLogger>();
+    private static _isExitHookRegistered = false;
+    private static _compressSequence = 0;
+
     private readonly _mutex = new Mutex();
     private readonly _logDirPath: string;
     private readonly _retentionDays: number;
+    private readonly _fileNamePrefix: string;
+    private readonly _useDailyRotation: boolean;
+    private readonly _maxFileSizeBytes: number | null;
+    private readonly _compressRotated: boolean;
+    private readonly _maxTotalSizeBytes: number | null;
+    private readonly _flushInterval: Duration;
+    private readonly _maxBufferedLines: number;
+    private readonly _durability: "write" | "none" | "periodic" | "line";
+    private readonly _logFilePattern: RegExp;
+    private readonly _rotatedFileNames = new Set<string>();
 
-    private _lastPurgedAt = 0;
+    private _buffer = new Array<{ period: string; line: string; }>();
+    private _flushTimer: NodeJS.Timeout | null = null;
+    private _fileHandle: Fs.promises.FileHandle | null = null;
+    private _stream: Fs.WriteStream | null = null;
+    private _streamFileName: string | null = null;
+    private _activePeriod: string | null = null;
+    private _activeIndex = 0;
+    private _activeFileSize = 0;
+    private _activeFileName: string | null = null;
+    private _backgroundPromise: Promise<void> = Promise.resolve();
+    private _isPurgeDue = false;
+    private _isPurgeScheduled = false;
+    private _isDisposed = false;
+    private _disposePromise: Promise<void> | null = null;
+    private _warnedAfterDispose = false;
 
     /**
      * Creates a new instance of FileLogger
      * @param config - Configuration for the file logger
      * @param config.logDirPath - Absolute path to the directory where log files will be stored
      * @param config.retentionDays - Number of days to retain log files before automatic deletion
-     * @param config.logDateTimeZone - Timezone for log timestamps (default: UTC)
+     * @param config.fileNamePrefix - Prefix prepended to every log file name (default: none)
+     * @param config.rotationInterval - Whether to start a new file every hour or every day (default: hourly)
+     * @param config.maxFileSizeBytes - Maximum size of a single log file before rolling over (default: no limit)
+     * @param config.compressRotated - Whether to gzip completed log files in the background (default: false)
+     * @param config.maxTotalSizeBytes - Maximum combined size of all log files before the oldest are deleted (default: no limit)
+     * @param config.flushIntervalSeconds - Seconds between scheduled writes of buffered lines (default: 1)
+     * @param config.maxBufferedLines - Number of buffered lines that triggers an immediate write (default: 1000)
+     * @param config.durability - Whether log calls wait for their line to be written or fsynced, or lines are buffered (default: write)
+     * @param config.logDateTimeZone - Timezone for log timestamps and file names, a LogDateTimeZone or any IANA zone name (default: UTC)
      * @param config.useJsonFormat - Whether to format logs as JSON (default: false)
+     * @param config.formatter - Formatter that renders log records (default: JSON or plain text depending on useJsonFormat)
      */
     public constructor(config: FileLoggerConfig)
     {
         super(config);
 
-        const { logDirPath, retentionDays } = config;
+        const { logDirPath, retentionDays, fileNamePrefix, rotationInterval, maxFileSizeBytes, compressRotated,
+            maxTotalSizeBytes, flushIntervalSeconds, maxBufferedLines, durability } = config;
 
         given(logDirPath, "logDirPath").ensureHasValue().ensureIsString()
             .ensure(t => Path.isAbsolute(t), "must be absolute");
@@ -47,147 +98,668 @@ export class FileLogger extends BaseLogger
         given(retentionDays, "retentionDays").ensureHasValue().ensureIsNumber().ensure(t => t > 0);
         this._retentionDays = Number.parseInt(retentionDays.toString());
 
+        given(fileNamePrefix, "fileNamePrefix").ensureIsString()
+            .ensure(t => !t.includes("/") && !t.includes("\\"), "must not contain path separators");
+        this._fileNamePrefix = fileNamePrefix?.trim() ?? "";
+
+        given(rotationInterval, "rotationInterval").ensureIsString().ensure(t => ["hourly", "daily"].contains(t));
+        this._useDailyRotation = rotationInterval === "daily";
+
+        given(maxFileSizeBytes, "maxFileSizeBytes").ensureIsNumber().ensure(t => t > 0);
+        this._maxFileSizeBytes = maxFileSizeBytes != null ? Number.parseInt(maxFileSizeBytes.toString()) : null;
+
+        given(compressRotated, "compressRotated").ensureIsBoolean();
+        this._compressRotated = !!compressRotated;
+
+        given(maxTotalSizeBytes, "maxTotalSizeBytes").ensureIsNumber().ensure(t => t > 0);
+        this._maxTotalSizeBytes = maxTotalSizeBytes != null ? Number.parseInt(maxTotalSizeBytes.toString()) : null;
+
+        given(flushIntervalSeconds, "flushIntervalSeconds").ensureIsNumber().ensure(t => t > 0);
+        this._flushInterval = Duration.fromSeconds(flushIntervalSeconds ?? 1);
+
+        given(maxBufferedLines, "maxBufferedLines").ensureIsNumber().ensure(t => t > 0);
+        this._maxBufferedLines = maxBufferedLines != null ? Number.parseInt(maxBufferedLines.toString()) : 1000;
+
+        given(durability, "durability").ensureIsString().ensure(t => ["write", "none", "periodic", "line"].contains(t));
+        this._durability = durability ?? "write";
+
+        // <prefix>YYYY-MM-DD[THH][.<index>].log[.gz]
+        const escapedPrefix = this._fileNamePrefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        this._logFilePattern = new RegExp(`^${escapedPrefix}(\\d{4}-\\d{2}-\\d{2}(T\\d{2})?)(\\.(\\d+))?\\.log(\\.gz)?$`);
+
         if (!Fs.existsSync(logDirPath))
             Fs.mkdirSync(logDirPath);
 
         this._logDirPath = logDirPath;
     }
 
+    /**
+     * Keeps track of a logger while it has buffered lines, so they can be flushed before the process exits.
+     * A logger is released once its buffer is written, so loggers that are never disposed can still be
+     * garbage collected. The exit hook is registered once for all loggers.
+     * Note: "beforeExit" is not emitted on process.exit() or on termination by a signal,
+     * so applications should dispose their loggers on shutdown.
+     * @param logger - The logger with buffered lines
+     */
+    private static _register(logger: FileLogger): void
+    {
+        FileLogger._instances.add(logger);
+
+        if (FileLogger._isExitHookRegistered)
+            return;
+
+        FileLogger._isExitHookRegistered = true;
+        process.on("beforeExit", () =>
+        {
+            FileLogger._instances.forEach(t =>
+            {
+                if (!t._buffer.isEmpty)
+                    t.flush().catch(e => console.error(e));
+            });
+        });
+    }
+
+    /**
+     * Logs a trace message to a file.
+     * Only writes when the trace level is enabled.
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
+     */
+    public async logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        await this._writeToLog(LogPrefix.trace, trace, fields);
+    }
+
     /**
      * Logs a debug message to a file.
-     * Only writes in development environment.
+     * Only writes when the debug level is enabled.
      * @param debug - The debug message to log
-     * @returns A promise that resolves when the log is written
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
      */
-    public async logDebug(debug: string): Promise<void>
+    public async logDebug(debug: string, fields?: LogFields): Promise<void>
     {
-        if (this.env === "dev")
-            await this._writeToLog(LogPrefix.debug, debug);
+        await this._writeToLog(LogPrefix.debug, debug, fields);
     }
 
     /**
      * Logs an informational message to a file
      * @param info - The informational message to log
-     * @returns A promise that resolves when the log is written
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
      */
-    public async logInfo(info: string): Promise<void>
+    public async logInfo(info: string, fields?: LogFields): Promise<void>
     {
-        await this._writeToLog(LogPrefix.info, info);
+        await this._writeToLog(LogPrefix.info, info, fields);
     }
 
     /**
      * Logs a warning message or exception to a file
      * @param warning - The warning message or exception to log
-     * @returns A promise that resolves when the log is written
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
      */
-    public async logWarning(warning: string | Exception): Promise<void>
+    public async logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
     {
-        await this._writeToLog(LogPrefix.warning, this.getErrorMessage(warning));
+        await this._writeToLog(LogPrefix.warning, this.getErrorMessage(warning), fields, warning);
     }
 
     /**
      * Logs an error message or exception to a file
      * @param error - The error message or exception to log
-     * @returns A promise that resolves when the log is written
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
+     */
+    public async logError(error: string | Exception, fields?: LogFields): Promise<void>
+    {
+        await this._writeToLog(LogPrefix.error, this.getErrorMessage(error), fields, error);
+    }
+
+    /**
+     * Logs a fatal message or exception to a file
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
+     */
+    public async logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        await this._writeToLog(LogPrefix.fatal, this.getErrorMessage(fatal), fields, fatal);
+    }
+
+    /**
+     * Writes all buffered log lines to their files.
+     * With "periodic" or "line" durability the files are fsynced before the returned promise resolves.
+     * @returns A promise that resolves when the buffered lines are written
+     */
+    public async flush(): Promise<void>
+    {
+        await this._mutex.lock();
+        try
+        {
+            if (this._flushTimer != null)
+            {
+                clearTimeout(this._flushTimer);
+                this._flushTimer = null;
+            }
+
+            while (!this._buffer.isEmpty)
+            {
+                const lines = this._buffer;
+                this._buffer = [];
+
+                // consecutive lines of the same file are written as a single chunk
+                let fileName: string | null = null;
+                let chunk = "";
+                for (const { period, line } of lines)
+                {
+                    const lineFileName = await this._getLogFileName(period, Buffer.byteLength(line));
+                    if (fileName != null && lineFileName !== fileName)
+                    {
+                        await this._write(fileName, chunk);
+                        chunk = "";
+                    }
+
+                    fileName = lineFileName;
+                    chunk += line;
+                }
+
+                await this._write(fileName!, chunk);
+            }
+
+            // files only change when a new file is opened, so the directory is not scanned on every flush
+            if (this._isPurgeDue)
+            {
+                this._isPurgeDue = false;
+                this._schedulePurge();
+            }
+        }
+        catch (error)
+        {
+            console.error(error);
+        }
+        finally
+        {
+            if (this._buffer.isEmpty)
+                FileLogger._instances.delete(this);
+
+            this._mutex.release();
+        }
+    }
+
+    /**
+     * Disposes the logger, writing any buffered lines and closing the active file.
+     * Also waits for in progress background compression and purging to complete.
+     * @returns A promise that resolves when disposal is complete
      */
-    public async logError(error: string | Exception): Promise<void>
+    public dispose(): Promise<void>
     {
-        await this._writeToLog(LogPrefix.error, this.getErrorMessage(error));
+        if (!this._isDisposed)
+        {
+            // summaries of suppressed records are queued before the logger stops accepting log calls
+            this.disposeRateLimiter();
+            this._isDisposed = true;
+            this._disposePromise = this._close();
+        }
+
+        return this._disposePromise!;
     }
 
     /**
-     * Writes a log message to the appropriate log file
+     * Adds a log message to the buffer of lines to be written to the appropriate log file.
+     * Does nothing if the level is not enabled or the rate limit is exceeded.
+     * Waits for the buffer to be written when the durability is "write" or "line" or the buffer is full,
+     * otherwise schedules a write after the flush interval.
      * @param status - The log level/status
      * @param message - The message to log
-     * @returns A promise that resolves when the log is written
+     * @param fields - Optional structured fields to attach to the log record
+     * @param exp - The logged exception, if any, serialized into the error attributes of structured formats
+     * @returns A promise that resolves when the log is written, or buffered with "none" or "periodic" durability
      */
-    private async _writeToLog(status: LogPrefix, message: string): Promise<void>
+    private async _writeToLog(status: LogPrefix, message: string, fields: LogFields | undefined,
+        exp?: string | Exception): Promise<void>
     {
+        if (this._isDisposedDrop())
+            return;
+
         given(status, "status").ensureHasValue().ensureIsEnum(LogPrefix);
         given(message, "message").ensureHasValue().ensureIsString();
 
-        const dateTimeValue = this.getDateTime();
+        let level: LogLevel;
 
-        if (this.useJsonFormat)
+        switch (status)
         {
-            let level = "";
+            case LogPrefix.trace:
+                level = LogLevel.trace;
+                break;
+            case LogPrefix.debug:
+                level = LogLevel.debug;
+                break;
+            case LogPrefix.info:
+                level = LogLevel.info;
+                break;
+            case LogPrefix.warning:
+                level = LogLevel.warn;
+                break;
+            case LogPrefix.error:
+                level = LogLevel.error;
+                break;
+            case LogPrefix.fatal:
+                level = LogLevel.fatal;
+                break;
+            default:
+                ensureExhaustiveCheck(status);
+        }
 
-            switch (status)
-            {
-                case LogPrefix.debug:
-                    level = "Debug";
-                    break;
-                case LogPrefix.info:
-                    level = "Info";
-                    break;
-                case LogPrefix.warning:
-                    level = "Warn";
-                    break;
-                case LogPrefix.error:
-                    level = "Error";
-                    break;
-            }
+        if (!this.isLevelEnabled(level) || this.isRateLimited(level, message))
+            return;
 
-            let log: LogRecord = {
-                source: this.source,
-                service: this.service,
-                env: this.env,
-                level: level,
-                message,
-                ...dateTimeValue
-            };
+        let log: LogRecord = this.createLogRecord(level, message, fields);
+        const dateTime = log.dateTime;
 
-            this.injectTrace(log, level === "Error");
+        if (this.formatter.isStructured)
+        {
+            this.injectTrace(log, level === LogLevel.error || level === LogLevel.fatal);
+            this.injectError(log, exp);
 
             if (this.logInjector)
                 log = this.logInjector(log);
-
-            message = JSON.stringify(log);
         }
+
+        message = this.formatter.format(log);
+
+        const line = `\n${message}`;
+        const period = dateTime.substr(0, this._useDailyRotation ? 10 : 13);
+
+        this._buffer.push({ period, line });
+
+        if (this._durability === "write" || this._durability === "line" || this._buffer.length >= this._maxBufferedLines)
+            await this.flush();
         else
+            this._scheduleFlush();
+    }
+
+    /**
+     * Schedules a write of the buffered lines after the flush interval, unless one is already scheduled.
+     * The timer does not keep the process alive, buffered lines are flushed by the exit hook instead.
+     */
+    private _scheduleFlush(): void
+    {
+        if (this._flushTimer != null)
+            return;
+
+        FileLogger._register(this);
+
+        this._flushTimer = setTimeout(() =>
+        {
+            this._flushTimer = null;
+            this.flush().catch(e => console.error(e));
+        }, this._flushInterval.toMilliSeconds()).unref();
+    }
+
+    /**
+     * Returns true if the logger has been disposed and the caller should drop
+     * the line. Emits a one-shot warning to stderr the first time a log
+     * call is seen after dispose so the misuse is visible without spamming.
+     */
+    private _isDisposedDrop(): boolean
+    {
+        if (!this._isDisposed)
+            return false;
+
+        if (!this._warnedAfterDispose)
         {
-            message = `${dateTimeValue.dateTime} ${status} ${message}`;
+            this._warnedAfterDispose = true;
+            console.warn("FileLogger: log call after dispose; message dropped. Further warnings suppressed.");
         }
 
-        const logFileName = `${dateTimeValue.dateTime.substr(0, 13)}.log`;
-        const logFilePath = Path.join(this._logDirPath, logFileName);
+        return true;
+    }
+
+    /**
+     * Flushes the buffer, closes the active file and waits for background work to complete
+     * @returns A promise that resolves when the logger is closed
+     */
+    private async _close(): Promise<void>
+    {
+        await this.flush();
 
         await this._mutex.lock();
-        try 
+        try
+        {
+            await this._closeStream();
+        }
+        finally
+        {
+            this._mutex.release();
+        }
+
+        await this._backgroundPromise;
+    }
+
+    /**
+     * Writes a chunk to a log file, switching the write stream over to the file if required.
+     * Waits for the chunk to be handed to the OS so the stream's internal buffer never grows
+     * unbounded, and fsyncs the file when the durability is "periodic" or "line".
+     * Must be called while holding the mutex.
+     * @param fileName - The name of the log file
+     * @param chunk - The lines to write
+     * @returns A promise that resolves when the chunk is written
+     */
+    private async _write(fileName: string, chunk: string): Promise<void>
+    {
+        if (fileName !== this._streamFileName)
         {
-            await Fs.promises.appendFile(logFilePath, `\n${message}`);
+            await this._closeStream();
+            await this._openStream(fileName);
+        }
+
+        const stream = this._stream!;
+        await new Promise<void>((resolve, reject) => stream.write(chunk, e => e ? reject(e) : resolve()));
+
+        if (this._durability === "periodic" || this._durability === "line")
+            await this._fileHandle!.sync();
+    }
 
-            await this._purgeLogs();
+    /**
+     * Opens a write stream that appends to a log file.
+     * Opening a new file means the previous one is complete, so background compression
+     * is scheduled and a purge is due once the current flush completes.
+     * Must be called while holding the mutex.
+     * @param fileName - The name of the log file
+     * @returns A promise that resolves when the stream is open
+     */
+    private async _openStream(fileName: string): Promise<void>
+    {
+        const fileHandle = await Fs.promises.open(Path.join(this._logDirPath, fileName), "a");
+        const stream = fileHandle.createWriteStream();
+        // errors are also reported to the write callbacks, the listener only prevents an unhandled error event
+        stream.on("error", () => { /* noop */ });
+
+        this._fileHandle = fileHandle;
+        this._stream = stream;
+        this._streamFileName = fileName;
+
+        this._isPurgeDue = true;
+        this._compressRotatedLogs();
+    }
+
+    /**
+     * Ends the active write stream, if any, and waits for its file to be closed.
+     * Must be called while holding the mutex.
+     * @returns A promise that resolves when the stream is closed
+     */
+    private async _closeStream(): Promise<void>
+    {
+        const stream = this._stream;
+        if (stream == null)
+            return;
+
+        this._stream = null;
+        this._fileHandle = null;
+        this._streamFileName = null;
+
+        await new Promise<void>(resolve =>
+        {
+            stream.once("close", resolve);
+            stream.end();
+        });
+    }
+
+    /**
+     * Gets the name of the file the next line should be written to, rolling over to
+     * the next index when the line would push the active file beyond the maximum size.
+     * Must be called while holding the mutex.
+     * @param period - The hour (YYYY-MM-DDTHH) or day (YYYY-MM-DD) the line belongs to
+     * @param size - The size of the line in bytes
+     * @returns The name of the log file
+     */
+    private async _getLogFileName(period: string, size: number): Promise<string>
+    {
+        if (period !== this._activePeriod)
+        {
+            // resume the latest index of the period so restarts keep appending to the same file
+            const files = await Fs.promises.readdir(this._logDirPath);
+            this._activeIndex = files
+                .map(t => this._getFileIndex(t, period))
+                .reduce<number>((acc, t) => Math.max(acc, t ?? 0), 0);
+
+            this._activePeriod = period;
+            this._activeFileSize = await this._getFileSize(this._getFileName(period, this._activeIndex));
         }
-        catch (error)
+
+        if (this._maxFileSizeBytes != null && this._activeFileSize > 0
+            && this._activeFileSize + size > this._maxFileSizeBytes)
         {
-            console.error(error);
+            // only a file this logger has written to is known to be complete, another process may still write to the others
+            const fileName = this._getFileName(period, this._activeIndex);
+            if (fileName === this._activeFileName)
+                this._rotatedFileNames.add(fileName);
+
+            this._activeIndex++;
+            this._activeFileSize = 0;
         }
-        finally
+
+        this._activeFileSize += size;
+        this._activeFileName = this._getFileName(period, this._activeIndex);
+
+        return this._activeFileName;
+    }
+
+    /**
+     * Gets the name of the log file for the given period and rollover index
+     * @param period - The hour or day of the file
+     * @param index - The rollover index, 0 for the first file of the period
+     * @returns The file name
+     */
+    private _getFileName(period: string, index: number): string
+    {
+        return index === 0
+            ? `${this._fileNamePrefix}${period}.log`
+            : `${this._fileNamePrefix}${period}.${index}.log`;
+    }
+
+    /**
+     * Gets the rollover index of a file if it is a (possibly compressed) log file of the given period
+     * @param fileName - The file name to check
+     * @param period - The hour or day of the file
+     * @returns The rollover index, or null if the file is not a log file of the period
+     */
+    private _getFileIndex(fileName: string, period: string): number | null
+    {
+        const match = this._logFilePattern.exec(fileName);
+        if (match == null || match[1] !== period)
+            return null;
+
+        return match[4] ? Number.parseInt(match[4]) : 0;
+    }
+
+    /**
+     * Schedules a background compression of all completed log files, see _isRotated.
+     * Background runs are chained so only one compression or purge is in progress at any time
+     * and a file completed during a run is picked up by the next one.
+     */
+    private _compressRotatedLogs(): void
+    {
+        if (!this._compressRotated)
+            return;
+
+        this._backgroundPromise = this._backgroundPromise
+            .then(async () =>
+            {
+                const files = await Fs.promises.readdir(this._logDirPath);
+                await files
+                    .where(t => t.endsWith(".log"))
+                    .forEachAsync(async (file) =>
+                    {
+                        // the active file may have changed since the run was scheduled
+                        if (file !== this._activeFileName && file !== this._streamFileName && this._isRotated(file, files))
+                        {
+                            await this._compressLog(file);
+                            this._rotatedFileNames.delete(file);
+                        }
+                    }, 1);
+            })
+            .catch(e => console.error(e));
+    }
+
+    /**
+     * Checks whether a log file is complete and can be compressed. That is a file of a period before the
+     * active period, or a file of the active period this logger has rolled over from. Other files of the
+     * active period, and always its highest index, may still be written by another process sharing the
+     * directory and file name prefix.
+     * @param fileName - The name of the log file
+     * @param fileNames - The names of all files in the log directory
+     * @returns True if the file can be compressed
+     */
+    private _isRotated(fileName: string, fileNames: ReadonlyArray<string>): boolean
+    {
+        const match = this._logFilePattern.exec(fileName);
+        if (match == null || this._activePeriod == null)
+            return false;
+
+        const period = match[1];
+        if (period === this._activePeriod)
         {
-            this._mutex.release();
+            const highestIndex = fileNames
+                .map(t => this._getFileIndex(t, period))
+                .reduce<number>((acc, t) => Math.max(acc, t ?? 0), 0);
+
+            return this._rotatedFileNames.has(fileName) && this._getFileIndex(fileName, period)! < highestIndex;
         }
+
+        const endsAt = DateTime.fromISO(period, { zone: this.logDateTimeZone }).plus(match[2] ? { hours: 1 } : { days: 1 });
+        return endsAt.isValid && endsAt <= DateTime.fromISO(this._activePeriod, { zone: this.logDateTimeZone });
     }
 
     /**
-     * Purges log files older than the retention period
+     * Schedules a background purge of log files, unless one is already scheduled and not yet started.
+     * Runs after a flush that opened a new log file, which keeps directory scans off the write path.
+     */
+    private _schedulePurge(): void
+    {
+        if (this._isPurgeScheduled)
+            return;
+
+        this._isPurgeScheduled = true;
+        this._backgroundPromise = this._backgroundPromise
+            .then(() =>
+            {
+                this._isPurgeScheduled = false;
+                return this._purgeLogs();
+            })
+            .catch(e => console.error(e));
+    }
+
+    /**
+     * Gzips a log file to <file>.gz and deletes the original.
+     * Appends to an existing .gz file (as an additional gzip member) rather than overwriting it.
+     * The file is claimed by renaming it first, so a logger sharing the directory never compresses it twice.
+     * @param fileName - The name of the log file to compress
+     * @returns A promise that resolves when the file is compressed
+     */
+    private async _compressLog(fileName: string): Promise<void>
+    {
+        const filePath = Path.join(this._logDirPath, fileName);
+        const claimedFilePath = `${filePath}.${process.pid}-${FileLogger._compressSequence++}.compressing`;
+
+        try
+        {
+            await Fs.promises.rename(filePath, claimedFilePath);
+        }
+        catch
+        {
+            // compressed by another logger
+            return;
+        }
+
+        await pipeline(
+            Fs.createReadStream(claimedFilePath),
+            Zlib.createGzip(),
+            Fs.createWriteStream(`${filePath}.gz`, { flags: "a" })
+        );
+
+        await Fs.promises.unlink(claimedFilePath);
+    }
+
+    /**
+     * Gets the size of a file in the log directory
+     * @param fileName - The file name
+     * @returns The size in bytes, 0 if the file does not exist
+     */
+    private async _getFileSize(fileName: string): Promise<number>
+    {
+        try
+        {
+            const stats = await Fs.promises.stat(Path.join(this._logDirPath, fileName));
+            return stats.size;
+        }
+        catch
+        {
+            return 0;
+        }
+    }
+
+    /**
+     * Purges log files older than the retention period, then the oldest log files while the
+     * combined size of the log files exceeds the maximum total size.
+     * The age of a file is taken from the hour or day in its name, so only files matching the
+     * naming pattern of this logger are considered. The active file is never purged.
      * @returns A promise that resolves when the purge is complete
      */
     private async _purgeLogs(): Promise<void>
     {
-        const now = Date.now();
-        if (this._lastPurgedAt && this._lastPurgedAt > (now - Duration.fromDays(this._retentionDays).toMilliSeconds()))
-            return;
+        const retainFrom = DateTime.now().minus({ days: this._retentionDays });
 
-        const files = await Make.callbackToPromise<ReadonlyArray<string>>(Fs.readdir)(this._logDirPath);
+        const files = await Fs.promises.readdir(this._logDirPath);
+        const logFiles = new Array<{ fileName: string; endsAt: DateTime; index: number; size: number; }>();
         await files.forEachAsync(async (file) =>
         {
-            const filePath = Path.join(this._logDirPath, file);
-            const stats = await Make.callbackToPromise<Fs.Stats>(Fs.stat)(filePath);
-            if (stats.isFile() && stats.birthtimeMs < (now - Duration.fromDays(this._retentionDays).toMilliSeconds()))
-                await Make.callbackToPromise(Fs.unlink)(filePath);
+            const match = this._logFilePattern.exec(file);
+            if (match == null)
+                return;
+
+            const startsAt = DateTime.fromISO(match[1], { zone: this.logDateTimeZone });
+            if (!startsAt.isValid)
+                return;
+
+            let stats: Fs.Stats;
+            try
+            {
+                stats = await Fs.promises.stat(Path.join(this._logDirPath, file));
+            }
+            catch
+            {
+                // compressed or purged by another logger sharing the directory
+                return;
+            }
+
+            if (!stats.isFile())
+                return;
+
+            logFiles.push({
+                fileName: file,
+                endsAt: startsAt.plus(match[2] ? { hours: 1 } : { days: 1 }),
+                index: match[4] ? Number.parseInt(match[4]) : 0,
+                size: stats.size
+            });
         }, 1);
 
-        this._lastPurgedAt = now;
+        let totalSize = logFiles.reduce((acc, t) => acc + t.size, 0);
+        await logFiles
+            .sort((a, b) => a.endsAt.toMillis() - b.endsAt.toMillis() || a.index - b.index)
+            .forEachAsync(async (t) =>
+            {
+                if (t.fileName === this._activeFileName || t.fileName === this._streamFileName)
+                    return;
+
+                const isExpired = t.endsAt < retainFrom;
+                const isOverBudget = this._maxTotalSizeBytes != null && totalSize > this._maxTotalSizeBytes;
+                if (!isExpired && !isOverBudget)
+                    return;
+
+                await Fs.promises.rm(Path.join(this._logDirPath, t.fileName), { force: true });
+                totalSize -= t.size;
+            }, 1);
     }
 }
\ No newline at end of file
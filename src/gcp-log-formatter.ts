@@ -0,0 +1,84 @@
+import { ConfigurationManager } from "@nivinjoseph/n-config";
+import { given } from "@nivinjoseph/n-defensive";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Formatter for the structured JSON that Google Cloud Logging parses from the stdout of GKE and Cloud Run
+ * workloads. Maps the record to the special fields "severity", "message", "time",
+ * "logging.googleapis.com/trace", "logging.googleapis.com/spanId" and "logging.googleapis.com/trace_sampled",
+ * so entries correlate with Cloud Trace. Error and Fatal records carry the Error Reporting "@type",
+ * "serviceContext" and "stack_trace". Structured fields are kept as top level fields (the jsonPayload).
+ * @see https://cloud.google.com/logging/docs/structured-logging
+ */
+export class GcpLogFormatter implements LogFormatter
+{
+    private static readonly _severities: Readonly<Record<string, string>> = {
+        [LogLevel.trace]: "DEBUG",
+        [LogLevel.debug]: "DEBUG",
+        [LogLevel.info]: "INFO",
+        [LogLevel.warn]: "WARNING",
+        [LogLevel.error]: "ERROR",
+        [LogLevel.fatal]: "CRITICAL"
+    };
+    private static readonly _reportedErrorEventType = "type.googleapis.com/google.devtools.clouderrorreporting.v1beta1.ReportedErrorEvent";
+
+    private readonly _projectId: string | null;
+
+
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Creates a new instance of GcpLogFormatter
+     * @param projectId - The id of the Google Cloud project the traces belong to
+     * (default: the "GOOGLE_CLOUD_PROJECT" configuration key). Without it the trace field is not emitted.
+     */
+    public constructor(projectId?: string)
+    {
+        given(projectId, "projectId").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._projectId = projectId?.trim() ?? ConfigurationManager.getConfig<string | null>("GOOGLE_CLOUD_PROJECT");
+    }
+
+
+    /**
+     * Renders a log record as single line Google Cloud Logging JSON
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const { time, level, message, dateTime: _, trace_id: traceId, span_id: spanId, trace_flags: traceFlags, ...rest }
+            = record as LogRecord & Record<string, unknown>;
+
+        const gcpRecord: Record<string, unknown> = {
+            "severity": GcpLogFormatter._severities[level] ?? "DEFAULT",
+            "message": message,
+            "time": time
+        };
+
+        if (typeof traceId === "string" && this._projectId != null)
+            gcpRecord["logging.googleapis.com/trace"] = `projects/${this._projectId}/traces/${traceId}`;
+
+        if (typeof spanId === "string")
+            gcpRecord["logging.googleapis.com/spanId"] = spanId;
+
+        if (typeof traceFlags === "string")
+            gcpRecord["logging.googleapis.com/trace_sampled"] = (Number.parseInt(traceFlags, 16) & 1) === 1;
+
+        if (level === LogLevel.error || level === LogLevel.fatal)
+        {
+            gcpRecord["@type"] = GcpLogFormatter._reportedErrorEventType;
+            gcpRecord["serviceContext"] = { service: rest["service"] };
+
+            // Error Reporting groups errors by the stack trace, which is taken from "stack_trace" when present
+            if (typeof rest["error.stack"] === "string")
+                gcpRecord["stack_trace"] = rest["error.stack"];
+        }
+
+        Object.entries(rest).forEach(([key, value]) => gcpRecord[key] = value);
+
+        return JSON.stringify(gcpRecord);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { given } from "@nivinjoseph/n-defensive";
+import Os from "node:os";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Formatter for the Graylog Extended Log Format (GELF) 1.1.
+ * The first line of the message becomes the "short_message", the full message (or the error stack)
+ * the "full_message", and every other key an additional field prefixed with "_".
+ * @see https://go2docs.graylog.org/current/getting_in_log_data/gelf.html
+ */
+export class GelfLogFormatter implements LogFormatter
+{
+    // syslog severities
+    private static readonly _levels: Readonly<Record<string, number>> = {
+        [LogLevel.trace]: 7,
+        [LogLevel.debug]: 7,
+        [LogLevel.info]: 6,
+        [LogLevel.warn]: 4,
+        [LogLevel.error]: 3,
+        [LogLevel.fatal]: 2
+    };
+
+    private readonly _host: string;
+
+
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Creates a new instance of GelfLogFormatter
+     * @param host - The host name reported in every message (default: the OS host name)
+     */
+    public constructor(host?: string)
+    {
+        given(host, "host").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._host = host?.trim() ?? Os.hostname();
+    }
+
+
+    /**
+     * Renders a log record as a single line GELF JSON message
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const { time, level, message, dateTime: _, ...rest } = record as LogRecord & Record<string, unknown>;
+
+        const newLineIndex = message.indexOf("\n");
+        const shortMessage = newLineIndex >= 0 ? message.substring(0, newLineIndex) : message;
+        const errorStack = rest["error.stack"];
+        const fullMessage = newLineIndex >= 0
+            ? message
+            : typeof errorStack === "string" ? errorStack : null;
+
+        const gelfRecord: Record<string, unknown> = {
+            "version": "1.1",
+            "host": this._host,
+            "short_message": shortMessage,
+            "timestamp": Date.parse(time) / 1000,
+            "level": GelfLogFormatter._levels[level] ?? 6
+        };
+
+        if (fullMessage != null)
+            gelfRecord["full_message"] = fullMessage;
+
+        gelfRecord["_level_name"] = level;
+
+        Object.entries(rest).forEach(([key, value]) =>
+        {
+            if (value === undefined)
+                return;
+
+            // additional field names may only contain word characters, "." and "-", and "_id" is reserved
+            let fieldName = `_${key.replace(/[^\w.-]/g, "_")}`;
+            if (fieldName === "_id")
+                fieldName = "_id_";
+
+            // additional field values may only be strings or numbers
+            gelfRecord[fieldName] = typeof value === "string" || typeof value === "number"
+                ? value
+                : JSON.stringify(value);
+        });
+
+        return JSON.stringify(gelfRecord);
+    }
+}
\ No newline at end of file
@@ -1 +1,389 @@
-// TODO: some day
\ No newline at end of file
+import { given } from "@nivinjoseph/n-defensive";
+import { ApplicationException, Exception } from "@nivinjoseph/n-exception";
+import { Disposable, Duration, Make, Mutex } from "@nivinjoseph/n-util";
+import { BaseLogger } from "./base-logger.js";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+import { Logger } from "./logger.js";
+import { LoggerConfig } from "./logger-config.js";
+
+/**
+ * Configuration options for the HTTP logger
+ */
+export type HttpLoggerConfig = Pick<LoggerConfig, "logDateTimeZone" | "minLevel" | "logInjector" | "enableOtelToDatadogTraceConversion" | "redaction" | "rateLimit"> & {
+    /** Absolute URL of the endpoint that log batches are POSTed to */
+    url: string;
+    /** Request body format: a JSON array or newline delimited JSON (default: json) */
+    format?: "json" | "ndjson";
+    /** Additional headers sent with every request */
+    headers?: Readonly<Record<string, string>>;
+    /** Value for the Authorization header (e.g. "Bearer <token>") */
+    authorization?: string;
+    /** Maximum number of records per request, reaching it triggers an early flush (default: 100) */
+    batchSize?: number;
+    /** Seconds between scheduled flushes (default: 5) */
+    flushIntervalSeconds?: number;
+    /** Number of retries with exponential backoff before a batch is considered failed (default: 5) */
+    maxRetries?: number;
+    /** Fallback logger to use if posting fails */
+    fallback?: Logger;
+};
+
+/**
+ * Logger implementation that ships JSON log records to an HTTP endpoint.
+ * Features:
+ * - Builds the same JSON log records as ConsoleLogger (including trace injection)
+ * - Batches records by count and time
+ * - Posts batches as a JSON array or as NDJSON
+ * - Configurable headers and authorization
+ * - Retries with exponential backoff
+ * - Fallback logger support for error handling
+ * - Only logs at or above the configured minimum level are posted (by default Debug only in development environment)
+ */
+export class HttpLogger extends BaseLogger implements Disposable
+{
+    private readonly _url: string;
+    private readonly _useNdjson: boolean;
+    private readonly _headers: Record<string, string>;
+    private readonly _batchSize: number;
+    private readonly _flushInterval: Duration;
+    private readonly _maxRetries: number;
+    private readonly _fallbackLogger: Logger | null;
+    private readonly _flushMutex = new Mutex();
+    private _messages = new Array<LogRecord>();
+    private _timer: NodeJS.Timeout;
+    private _earlyFlushPromise: Promise<void> | null = null;
+    private _isDisposed = false;
+    private _disposePromise: Promise<void> | null = null;
+    private _warnedAfterDispose = false;
+
+    /**
+     * Creates a new instance of HttpLogger
+     * @param config - Configuration for the HTTP logger
+     */
+    public constructor(config: HttpLoggerConfig)
+    {
+        super(config);
+
+        const { url, format, headers, authorization, batchSize, flushIntervalSeconds, maxRetries } = config;
+
+        given(url, "url").ensureHasValue().ensureIsString()
+            .ensure(t => URL.canParse(t), "must be a valid absolute url");
+        this._url = url;
+
+        given(format, "format").ensureIsString().ensure(t => ["json", "ndjson"].contains(t));
+        this._useNdjson = format === "ndjson";
+
+        given(headers, "headers").ensureIsObject();
+        given(authorization, "authorization").ensureIsString();
+        this._headers = {
+            ...headers,
+            "Content-Type": this._useNdjson ? "application/x-ndjson" : "application/json"
+        };
+        if (authorization != null && authorization.isNotEmptyOrWhiteSpace())
+            this._headers["Authorization"] = authorization;
+
+        given(batchSize, "batchSize").ensureIsNumber().ensure(t => t > 0);
+        this._batchSize = batchSize != null ? Number.parseInt(batchSize.toString()) : 100;
+
+        given(flushIntervalSeconds, "flushIntervalSeconds").ensureIsNumber().ensure(t => t > 0);
+        this._flushInterval = Duration.fromSeconds(flushIntervalSeconds ?? 5);
+
+        given(maxRetries, "maxRetries").ensureIsNumber().ensure(t => t > 0);
+        this._maxRetries = maxRetries != null ? Number.parseInt(maxRetries.toString()) : 5;
+
+        this._fallbackLogger = config.fallback ?? null;
+
+        this._timer = this._createLogFlushTimeout();
+    }
+
+    /**
+     * Logs a trace message to the HTTP endpoint.
+     * Only posts when the trace level is enabled.
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.trace, trace, fields);
+    }
+
+    /**
+     * Logs a debug message to the HTTP endpoint.
+     * Only posts when the debug level is enabled.
+     * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logDebug(debug: string, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.debug, debug, fields);
+    }
+
+    /**
+     * Logs an informational message to the HTTP endpoint.
+     * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logInfo(info: string, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.info, info, fields);
+    }
+
+    /**
+     * Logs a warning message or exception to the HTTP endpoint.
+     * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.warn, this.getErrorMessage(warning), fields, warning);
+    }
+
+    /**
+     * Logs an error message or exception to the HTTP endpoint.
+     * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logError(error: string | Exception, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.error, this.getErrorMessage(error), fields, error);
+    }
+
+    /**
+     * Logs a fatal message or exception to the HTTP endpoint.
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        this._enqueue(LogLevel.fatal, this.getErrorMessage(fatal), fields, fatal);
+    }
+
+    /**
+     * Disposes the logger, flushing any remaining records.
+     * @returns A promise that resolves when disposal is complete
+     */
+    public dispose(): Promise<void>
+    {
+        if (!this._isDisposed)
+        {
+            // summaries of suppressed records are queued before the logger stops accepting log calls
+            this.disposeRateLimiter();
+            this._isDisposed = true;
+            clearTimeout(this._timer);
+            this._disposePromise = this._flushMessages();
+        }
+
+        return this._disposePromise!;
+    }
+
+    /**
+     * Creates the request body for a batch of records, as a JSON array or as NDJSON.
+     * Override to post records in a different format.
+     * @param messages - The records of the batch
+     * @returns The request body
+     */
+    protected createRequestBody(messages: ReadonlyArray<LogRecord>): string
+    {
+        return this._useNdjson
+            ? messages.map(t => JSON.stringify(t)).join("\n") + "\n"
+            : JSON.stringify(messages);
+    }
+
+    /**
+     * Builds a log record and adds it to the queue.
+     * Does nothing if the level is not enabled or the rate limit is exceeded.
+     * Triggers an early flush once a full batch is queued.
+     * @param level - The log level
+     * @param message - The message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @param exp - The logged exception, if any, serialized into the error attributes
+     */
+    private _enqueue(level: LogLevel, message: string, fields: LogFields | undefined, exp?: string | Exception): void
+    {
+        if (this._isDisposedDrop())
+            return;
+
+        if (!this.isLevelEnabled(level) || this.isRateLimited(level, message))
+            return;
+
+        let log: LogRecord = this.createLogRecord(level, message, fields);
+
+        this.injectTrace(log, level === LogLevel.error || level === LogLevel.fatal);
+        this.injectError(log, exp);
+
+        if (this.logInjector)
+            log = this.logInjector(log);
+
+        this._messages.push(log);
+
+        if (this._messages.length >= this._batchSize && this._earlyFlushPromise == null)
+        {
+            this._earlyFlushPromise = this._flushMessages()
+                .catch(e => this._fallbackLogger?.logError(e).catch(e => console.error(e)) ?? console.error(e))
+                .finally(() => this._earlyFlushPromise = null);
+        }
+    }
+
+    private _createLogFlushTimeout(): NodeJS.Timeout
+    {
+        return setTimeout(() =>
+        {
+            this._flushMessages()
+                .catch(e => this._fallbackLogger?.logError(e).catch(e => console.error(e)) ?? console.error(e));
+        }, this._flushInterval.toMilliSeconds());
+    }
+
+    /**
+     * Returns true if the logger has been disposed and the caller should drop
+     * the record. Emits a one-shot warning to stderr the first time a log
+     * call is seen after dispose so the misuse is visible without spamming.
+     */
+    private _isDisposedDrop(): boolean
+    {
+        if (!this._isDisposed)
+            return false;
+
+        if (!this._warnedAfterDispose)
+        {
+            this._warnedAfterDispose = true;
+            console.warn(`${this.constructor.name}: log call after dispose; message dropped. Further warnings suppressed.`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Flushes queued records to the HTTP endpoint.
+     * Serialized via a mutex so concurrent invocations (timer, early flush
+     * and dispose) cannot interleave or post out of order.
+     * Drains the queue fully, posting in batches of the configured size.
+     * @returns A promise that resolves when records are flushed
+     */
+    private async _flushMessages(): Promise<void>
+    {
+        await this._flushMutex.lock();
+        try
+        {
+            while (!this._messages.isEmpty)
+            {
+                const messagesToFlush = this._messages.take(this._batchSize);
+                this._messages = this._messages.skip(this._batchSize);
+
+                await this._postMessages(messagesToFlush);
+            }
+        }
+        finally
+        {
+            this._flushMutex.release();
+            if (!this._isDisposed)
+            {
+                clearTimeout(this._timer);
+                this._timer = this._createLogFlushTimeout();
+            }
+        }
+    }
+
+    /**
+     * Posts records to the HTTP endpoint
+     * @param messages - The records to post
+     * @returns A promise that resolves when records are posted
+     */
+    private async _postMessages(messages: ReadonlyArray<LogRecord>): Promise<void>
+    {
+        try
+        {
+            const body = this.createRequestBody(messages);
+
+            await Make.retryWithExponentialBackoff(async () =>
+            {
+                const response = await fetch(this._url, {
+                    method: "POST",
+                    headers: this._headers,
+                    body,
+                    signal: AbortSignal.timeout(Duration.fromSeconds(30).toMilliSeconds())
+                });
+
+                // drain the body so the connection can be reused
+                await response.arrayBuffer();
+
+                if (!response.ok)
+                    throw new ApplicationException(`Log endpoint responded with status ${response.status} ${response.statusText}`);
+            }, this._maxRetries)();
+        }
+        catch (error)
+        {
+            if (this._fallbackLogger != null)
+            {
+                await this._fallbackLogger.logWarning("Error while posting logs to http endpoint.");
+                await this._fallbackLogger.logError(error as any);
+                await this._fallbackLogger.logWarning("Original messages below");
+                await messages.forEachAsync(async log =>
+                {
+                    switch (log.level)
+                    {
+                        case "Trace":
+                            await this._fallbackLogger!.logTrace(log.message);
+                            break;
+                        case "Debug":
+                            await this._fallbackLogger!.logDebug(log.message);
+                            break;
+                        case "Info":
+                            await this._fallbackLogger!.logInfo(log.message);
+                            break;
+                        case "Warn":
+                            await this._fallbackLogger!.logWarning(log.message);
+                            break;
+                        case "Error":
+                            await this._fallbackLogger!.logError(log.message);
+                            break;
+                        case "Fatal":
+                            await this._fallbackLogger!.logFatal(log.message);
+                            break;
+                        default:
+                            await this._fallbackLogger!.logError(log.message);
+                    }
+                }, 1);
+            }
+            else
+            {
+                console.warn("Error while posting logs to http endpoint.");
+                console.error(error as any);
+                console.warn("Original messages below");
+                messages.forEach(log =>
+                {
+                    switch (log.level)
+                    {
+                        case "Trace":
+                            console.info(log.message);
+                            break;
+                        case "Debug":
+                            console.info(log.message);
+                            break;
+                        case "Info":
+                            console.info(log.message);
+                            break;
+                        case "Warn":
+                            console.warn(log.message);
+                            break;
+                        case "Error":
+                            console.error(log.message);
+                            break;
+                        case "Fatal":
+                            console.error(log.message);
+                            break;
+                        default:
+                            console.error(log.message);
+                    }
+                });
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -1,20 +1,45 @@
 import "@nivinjoseph/n-ext";
+import { ChildLogger } from "./child-logger.js";
+import { CompositeLogger, CompositeLoggerConfig, CompositeLoggerSink } from "./composite-logger.js";
 import { ConsoleLogger } from "./console-logger.js";
+import { DatadogLogFormatter, DatadogLogFormatterConfig } from "./datadog-log-formatter.js";
+import { EcsLogFormatter } from "./ecs-log-formatter.js";
 import { FileLoggerConfig } from "./file-logger-config.js";
 import { FileLogger } from "./file-logger.js";
+import { GcpLogFormatter } from "./gcp-log-formatter.js";
+import { GelfLogFormatter } from "./gelf-log-formatter.js";
+import { HttpLogger, HttpLoggerConfig } from "./http-logger.js";
+import { JsonLogFormatter } from "./json-log-formatter.js";
+import { LogContext } from "./log-context.js";
 import { LogDateTimeZone } from "./log-date-time-zone.js";
+import { LogFields } from "./log-fields.js";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
 import { LogRecord } from "./log-record.js";
+import { LogfmtLogFormatter } from "./logfmt-log-formatter.js";
 import { LoggerConfig } from "./logger-config.js";
 import { Logger } from "./logger.js";
-import { SlackLogger, SlackLoggerConfig } from "./slack-logger.js";
+import { OtlpLogger, OtlpLoggerConfig } from "./otlp-logger.js";
+import { RateLimitConfig } from "./rate-limit-config.js";
+import { RedactionConfig } from "./redaction-config.js";
+import { SlackLogger, SlackLoggerConfig, SlackLoggerRoute } from "./slack-logger.js";
+import { SyslogLogger, SyslogLoggerConfig } from "./syslog-logger.js";
+import { TextLogFormatter } from "./text-log-formatter.js";
 
 /**
  * n-log - A flexible logging library for Node.js applications
  * 
  * Features:
- * - Multiple logger implementations (Console, File, Slack)
- * - Configurable log levels and formatting
+ * - Multiple logger implementations (Console, File, Slack, Http, OpenTelemetry OTLP, Syslog)
+ * - Composite logger to fan out to multiple loggers
+ * - Configurable minimum log level and formatting
  * - JSON and plain text output support
+ * - Pluggable formatters including logfmt, Elastic Common Schema, GELF, Datadog and Google Cloud Logging
+ * - Structured fields on every log call
+ * - Child loggers with bound context
+ * - Async request context propagation
+ * - Redaction of secrets and PII
+ * - Rate limiting of repeated log lines
  * - Timezone-aware timestamps
  * - OpenTelemetry trace integration
  * - Extensible through custom log injectors
@@ -24,30 +49,105 @@ import { SlackLogger, SlackLoggerConfig } from "./slack-logger.js";
 
 export
 {
+    /** Child logger with bound fields */
+    ChildLogger,
+
+    /** Composite logger implementation */
+    CompositeLogger,
+
+    /** Composite logger configuration */
+    CompositeLoggerConfig,
+
+    /** Composite logger sink configuration */
+    CompositeLoggerSink,
+
     /** Console logger implementation */
     ConsoleLogger,
 
+    /** Datadog JSON formatter */
+    DatadogLogFormatter,
+
+    /** Datadog JSON formatter configuration */
+    DatadogLogFormatterConfig,
+
+    /** Elastic Common Schema formatter */
+    EcsLogFormatter,
+
     /** File logger implementation */
     FileLogger,
 
     /** File logger configuration interface */
     FileLoggerConfig,
 
+    /** Google Cloud Logging JSON formatter */
+    GcpLogFormatter,
+
+    /** GELF formatter */
+    GelfLogFormatter,
+
+    /** Http logger implementation */
+    HttpLogger,
+
+    /** Http logger configuration interface */
+    HttpLoggerConfig,
+
+    /** JSON formatter */
+    JsonLogFormatter,
+
+    /** Async context propagation for log fields */
+    LogContext,
+
     /** Supported timezones for log timestamps */
     LogDateTimeZone,
 
+    /** Structured fields that can be attached to a log call */
+    LogFields,
+
+    /** Log record formatter interface */
+    LogFormatter,
+
+    /** Log severity levels */
+    LogLevel,
+
     /** Log record interface for JSON formatted logs */
     LogRecord,
 
+    /** logfmt formatter */
+    LogfmtLogFormatter,
+
     /** Base logger interface */
     Logger,
 
     /** Base logger configuration interface */
     LoggerConfig,
 
+    /** OpenTelemetry OTLP logger implementation */
+    OtlpLogger,
+
+    /** OpenTelemetry OTLP logger configuration */
+    OtlpLoggerConfig,
+
+    /** Rate limit configuration interface */
+    RateLimitConfig,
+
+    /** Redaction configuration interface */
+    RedactionConfig,
+
     /** Slack logger implementation */
     SlackLogger,
 
     /** Slack logger configuration interface */
-    SlackLoggerConfig
+    SlackLoggerConfig,
+
+    /** Slack logger channel routing rule */
+    SlackLoggerRoute,
+
+    /** Syslog (RFC 5424) logger implementation */
+    SyslogLogger,
+
+    /** Syslog logger configuration */
+    SyslogLoggerConfig,
+
+    /** Plain text formatter */
+    TextLogFormatter
 };
@@ -0,0 +1,21 @@
+import { LogFormatter } from "./log-formatter.js";
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Formatter for the JSON format, renders the log record as is
+ */
+export class JsonLogFormatter implements LogFormatter
+{
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Renders a log record as single line JSON
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        return JSON.stringify(record);
+    }
+}
\ No newline at end of file
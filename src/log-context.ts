@@ -0,0 +1,51 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { LogFields } from "./log-fields.js";
+
+/**
+ * Async context propagation for log fields, built on AsyncLocalStorage.
+ * Every record produced by a BaseLogger inside a LogContext.run() scope includes
+ * the scope's fields, similar to how trace_id/span_id are pulled from the active
+ * OpenTelemetry context. Nested scopes merge their fields with the outer scope.
+ * Fields passed to a log call (or bound through a child logger) take precedence
+ * over the context fields.
+ *
+ * @example
+ * ```typescript
+ * await LogContext.run({ requestId, userId }, async () =>
+ * {
+ *     await logger.logInfo("handling request"); // includes requestId and userId
+ * });
+ * ```
+ */
+export class LogContext
+{
+    private static readonly _storage = new AsyncLocalStorage<LogFields>();
+
+
+    /**
+     * Gets the fields of the active log context, or null when called outside of a LogContext.run() scope
+     */
+    public static get current(): LogFields | null { return LogContext._storage.getStore() ?? null; }
+
+
+    private constructor() { }
+
+
+    /**
+     * Runs the function in a log context that includes the given fields.
+     * Fields of an enclosing context are inherited, with the given fields taking precedence.
+     * @param fields - The fields to include in every record logged within the scope
+     * @param func - The function to run within the scope
+     * @returns The return value of the function
+     */
+    public static run<T>(fields: LogFields, func: () => T): T
+    {
+        given(fields, "fields").ensureHasValue().ensureIsObject();
+        given(func, "func").ensureHasValue().ensureIsFunction();
+
+        const current = LogContext._storage.getStore();
+
+        return LogContext._storage.run(current != null ? { ...current, ...fields } : { ...fields }, func);
+    }
+}
\ No newline at end of file
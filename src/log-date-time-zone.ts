@@ -1,5 +1,6 @@
 /**
- * Enum representing supported timezones for log timestamps
+ * Enum representing commonly used timezones for log timestamps.
+ * Any other IANA zone name (e.g. "Europe/London") can be configured as a string.
  */
 export enum LogDateTimeZone
 {
@@ -0,0 +1,12 @@
+/**
+ * Structured fields that can be attached to a single log call.
+ * In JSON mode the fields are merged into the LogRecord, in plain text mode
+ * they are rendered as key=value pairs after the message.
+ *
+ * Fields can never override the reserved LogRecord keys (source, service, env,
+ * level, message, dateTime, time) or the trace keys (trace_id, span_id,
+ * trace_flags, dd.trace_id, dd.span_id). A field that collides with a reserved
+ * key is kept under "fields.<key>" instead, e.g. a "level" field becomes "fields.level".
+ * Fields with an undefined value are omitted.
+ */
+export type LogFields = Readonly<Record<string, any>>;
\ No newline at end of file
@@ -0,0 +1,31 @@
+/**
+ * Creates fingerprints of log messages so messages that only differ in variable parts
+ * (ids, numbers, durations, ...) are recognized as the same message.
+ */
+export class LogFingerprint
+{
+    private static readonly _maxLength = 256;
+
+
+    private constructor() { }
+
+
+    /**
+     * Creates the fingerprint of a message from its first line, with uuids, hex values
+     * and numbers replaced by placeholders
+     * @param message - The message to fingerprint
+     * @returns The fingerprint of the message
+     */
+    public static create(message: string): string
+    {
+        const newLineIndex = message.indexOf("\n");
+        const firstLine = newLineIndex >= 0 ? message.substring(0, newLineIndex) : message;
+
+        return firstLine
+            .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+            .replace(/\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<hex>")
+            .replace(/\d+(\.\d+)?/g, "<n>")
+            .trim()
+            .substring(0, LogFingerprint._maxLength);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Interface for formatters that render a log record as a single output entry.
+ * Used by ConsoleLogger and FileLogger, see TextLogFormatter, JsonLogFormatter,
+ * LogfmtLogFormatter, EcsLogFormatter, GelfLogFormatter, DatadogLogFormatter and GcpLogFormatter for the built-in formats.
+ */
+export interface LogFormatter
+{
+    /**
+     * Whether the formatter renders structured records. Records for structured formatters
+     * are enriched with trace and error attributes and passed through the logInjector
+     * before they are formatted. Plain text formatters are colored by level on the console.
+     */
+    readonly isStructured: boolean;
+
+    /**
+     * Renders a log record
+     * @param record - The log record to render
+     * @returns The rendered record, without a trailing newline
+     */
+    format(record: LogRecord): string;
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Enum representing log severity levels, ordered from least to most severe.
+ * Values match the level written to LogRecord.level.
+ */
+export enum LogLevel
+{
+    /** Trace level, very verbose diagnostics */
+    trace = "Trace",
+
+    /** Debug level, verbose diagnostics */
+    debug = "Debug",
+
+    /** Info level, informational messages */
+    info = "Info",
+
+    /** Warn level, warnings and recoverable problems */
+    warn = "Warn",
+
+    /** Error level, errors and failures */
+    error = "Error",
+
+    /** Fatal level, unrecoverable failures */
+    fatal = "Fatal"
+}
\ No newline at end of file
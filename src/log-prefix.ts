@@ -3,6 +3,9 @@
  */
 export enum LogPrefix
 {
+    /** Prefix for trace level logs */
+    trace = "APP TRACE:",
+
     /** Prefix for debug level logs */
     debug = "APP DEBUG:",
 
@@ -13,5 +16,8 @@ export enum LogPrefix
     warning = "APP WARNING:",
 
     /** Prefix for error level logs */
-    error = "APP ERROR:"
+    error = "APP ERROR:",
+
+    /** Prefix for fatal level logs */
+    fatal = "APP FATAL:"
 }
\ No newline at end of file
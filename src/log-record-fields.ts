@@ -0,0 +1,82 @@
+import { LogRecord } from "./log-record.js";
+
+/**
+ * Separates the structured fields of a log record from its reserved keys
+ * and renders them for plain text output.
+ */
+export class LogRecordFields
+{
+    private static readonly _reservedKeys: ReadonlyArray<string> = ["source", "service", "env", "level", "message", "dateTime", "time",
+        "trace_id", "span_id", "trace_flags", "dd.trace_id", "dd.span_id",
+        "error.kind", "error.message", "error.stack", "error.cause"];
+
+
+    private constructor() { }
+
+
+    /**
+     * Checks whether a key is reserved for the record itself, trace or error attributes
+     * @param key - The key to check
+     * @returns True if the key is reserved
+     */
+    public static isReserved(key: string): boolean
+    {
+        return LogRecordFields._reservedKeys.contains(key);
+    }
+
+    /**
+     * Gets the structured fields of a log record, i.e. every defined value of a non reserved key
+     * @param log - The log record
+     * @returns The key value pairs of the structured fields
+     */
+    public static getFields(log: LogRecord): Array<[string, unknown]>
+    {
+        return Object.entries(log)
+            .filter(([key, value]) => value !== undefined && !LogRecordFields.isReserved(key));
+    }
+
+    /**
+     * Renders the structured fields of a log record as key=value pairs for plain text output
+     * @param log - The log record whose non reserved keys should be rendered
+     * @returns The rendered fields prefixed with a space, or an empty string if there are none
+     */
+    public static format(log: LogRecord): string
+    {
+        const pairs = LogRecordFields.getFields(log)
+            .map(([key, value]) => `${key}=${LogRecordFields.formatValue(value)}`);
+
+        return pairs.isEmpty ? "" : ` ${pairs.join(" ")}`;
+    }
+
+    /**
+     * Renders a single field value for plain text output.
+     * Strings containing whitespace, quotes or "=" are quoted, objects are rendered as JSON.
+     * @param value - The value to render
+     * @returns The rendered value
+     */
+    public static formatValue(value: unknown): string
+    {
+        if (value === null)
+            return "null";
+
+        if (typeof value === "string")
+            return value.length === 0 || /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+
+        if (value instanceof Date)
+            return value.toISOString();
+
+        if (typeof value === "object")
+        {
+            try
+            {
+                return JSON.stringify(value);
+            }
+            catch
+            {
+                return String(value);
+            }
+        }
+
+        return String(value);
+    }
+}
\ No newline at end of file
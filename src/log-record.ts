@@ -12,7 +12,7 @@ export interface LogRecord
     /** Environment identifier (e.g. "dev", "stage", "prod") */
     env: string;
 
-    /** Log level (e.g. "Debug", "Info", "Warn", "Error") */
+    /** Log level (e.g. "Trace", "Debug", "Info", "Warn", "Error", "Fatal") */
     level: string;
 
     /** The actual log message */
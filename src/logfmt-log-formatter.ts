@@ -0,0 +1,43 @@
+import { LogFormatter } from "./log-formatter.js";
+import { LogRecord } from "./log-record.js";
+import { LogRecordFields } from "./log-record-fields.js";
+
+/**
+ * Formatter for the logfmt format:
+ * `time=<dateTime> level=<level> msg=<message> service=<service> ... key=value`
+ */
+export class LogfmtLogFormatter implements LogFormatter
+{
+    public get isStructured(): boolean { return true; }
+
+
+    /**
+     * Renders a log record as logfmt key=value pairs.
+     * The time, level and message come first, followed by the remaining keys in record order.
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const { dateTime, level, message, time: _, ...rest } = record as LogRecord & Record<string, unknown>;
+
+        return [
+            ["time", dateTime],
+            ["level", level.toLowerCase()],
+            ["msg", message],
+            ...Object.entries(rest).filter(([_, value]) => value !== undefined)
+        ]
+            .map(([key, value]) => `${key}=${this._formatValue(value)}`)
+            .join(" ");
+    }
+
+    private _formatValue(value: unknown): string
+    {
+        const formatted = LogRecordFields.formatValue(value);
+
+        // JSON rendered objects are quoted so they remain a single logfmt value
+        return typeof value === "object" && value !== null && !(value instanceof Date)
+            ? JSON.stringify(formatted)
+            : formatted;
+    }
+}
\ No newline at end of file
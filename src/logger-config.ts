@@ -1,5 +1,9 @@
 import { LogDateTimeZone } from "./log-date-time-zone.js";
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
 import { LogRecord } from "./log-record.js";
+import { RateLimitConfig } from "./rate-limit-config.js";
+import { RedactionConfig } from "./redaction-config.js";
 
 /**
  * Base configuration interface for loggers
@@ -7,20 +11,37 @@ import { LogRecord } from "./log-record.js";
 export interface LoggerConfig
 {
     /**
-     * Timezone to use for log timestamps
+     * Timezone to use for log timestamps, either a LogDateTimeZone or any IANA zone name
+     * (e.g. "Europe/London", "Asia/Kolkata"). Zones that cannot be resolved are rejected.
      * @default LogDateTimeZone.utc
      */
-    logDateTimeZone?: LogDateTimeZone;
+    logDateTimeZone?: LogDateTimeZone | string;
+
+    /**
+     * Minimum level a log call must have to be emitted.
+     * When not set, the "logLevel" configuration key is used (e.g. "debug", "info", "warn", "error")
+     * @default LogLevel.debug in the "dev" environment, LogLevel.info otherwise
+     */
+    minLevel?: LogLevel;
 
     /**
      * Whether to format logs as JSON
+     * Ignored when a formatter is configured
      * @default false
      */
     useJsonFormat?: boolean;
 
+    /**
+     * Formatter that renders log records, used by ConsoleLogger and FileLogger
+     * (e.g. new LogfmtLogFormatter(), new EcsLogFormatter(), new GelfLogFormatter(), new DatadogLogFormatter(),
+     * new GcpLogFormatter())
+     * @default JsonLogFormatter when useJsonFormat is true, TextLogFormatter otherwise
+     */
+    formatter?: LogFormatter;
+
     /**
      * Function to inject additional data into log records
-     * Only used when useJsonFormat is true
+     * Only used with JSON or other structured formats
      */
     logInjector?(record: LogRecord): LogRecord;
 
@@ -29,4 +50,18 @@ export interface LoggerConfig
      * @default false
      */
     enableOtelToDatadogTraceConversion?: boolean;
+
+    /**
+     * Redaction of secrets and PII from the message and structured fields of every record,
+     * applied before the record is formatted so plain text, JSON and Slack output are all covered
+     * @default no redaction
+     */
+    redaction?: RedactionConfig;
+
+    /**
+     * Rate limiting of records with the same level and message fingerprint, so a hot call site
+     * cannot flood the output. Suppressed records are reported by a summary record per window
+     * @default no rate limiting
+     */
+    rateLimit?: RateLimitConfig;
 }
\ No newline at end of file
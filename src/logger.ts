@@ -1,38 +1,72 @@
 import { Exception } from "@nivinjoseph/n-exception";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
 
 /**
  * Interface defining the contract for logging functionality.
  * Implementations of this interface provide different ways to log messages
  * at various severity levels.
+ * Every method accepts optional structured fields (see LogFields) that are
+ * attached to the emitted log record.
  */
 export interface Logger
 {
+    /**
+     * Checks whether a log call at the given level would be emitted.
+     * Useful to skip building expensive messages that would be discarded.
+     * @param level - The level to check
+     * @returns True if a log call at the level would be emitted
+     */
+    isLevelEnabled(level: LogLevel): boolean;
+
+    /**
+     * Logs a trace message for very verbose diagnostics.
+     * Only outputs when the trace level is enabled (disabled by default).
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    logTrace(trace: string, fields?: LogFields): Promise<void>;
+
     /**
      * Logs a debug message.
-     * Only outputs in development environment.
+     * Only outputs when the debug level is enabled (by default only in development environment).
      * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log operation is complete
      */
-    logDebug(debug: string): Promise<void>;
+    logDebug(debug: string, fields?: LogFields): Promise<void>;
 
     /**
      * Logs an informational message.
      * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log operation is complete
      */
-    logInfo(info: string): Promise<void>;
+    logInfo(info: string, fields?: LogFields): Promise<void>;
 
     /**
      * Logs a warning message or exception.
      * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log operation is complete
      */
-    logWarning(warning: string | Exception): Promise<void>;
+    logWarning(warning: string | Exception, fields?: LogFields): Promise<void>;
 
     /**
      * Logs an error message or exception.
      * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log operation is complete
+     */
+    logError(error: string | Exception, fields?: LogFields): Promise<void>;
+
+    /**
+     * Logs an unrecoverable failure.
+     * Marks the active span (if any) as an error.
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log operation is complete
      */
-    logError(error: string | Exception): Promise<void>;
+    logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>;
 }
\ No newline at end of file
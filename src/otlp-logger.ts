@@ -0,0 +1,179 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { HttpLogger, HttpLoggerConfig } from "./http-logger.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+import { LoggerConfig } from "./logger-config.js";
+
+/**
+ * Configuration options for the OTLP logger
+ */
+export type OtlpLoggerConfig = Pick<LoggerConfig, "logDateTimeZone" | "minLevel" | "logInjector" | "redaction" | "rateLimit">
+    & Pick<HttpLoggerConfig, "headers" | "authorization" | "batchSize" | "flushIntervalSeconds" | "maxRetries" | "fallback"> & {
+        /** Absolute URL of the collector's OTLP/HTTP logs endpoint (default: http://localhost:4318/v1/logs) */
+        url?: string;
+        /** Additional resource attributes (e.g. { "service.version": "1.2.3" }) */
+        resourceAttributes?: Readonly<Record<string, string | number | boolean>>;
+    };
+
+type OtlpAnyValue = {
+    stringValue?: string;
+    boolValue?: boolean;
+    intValue?: string;
+    doubleValue?: number;
+    arrayValue?: { values: Array<OtlpAnyValue>; };
+    kvlistValue?: { values: Array<OtlpKeyValue>; };
+};
+
+type OtlpKeyValue = {
+    key: string;
+    value: OtlpAnyValue;
+};
+
+/**
+ * Logger implementation that exports log records to an OpenTelemetry collector over OTLP/HTTP JSON.
+ * Features:
+ * - Maps log records to the OTLP LogRecord data model: severity number and text, body,
+ *   attributes, and trace and span ids of the active span
+ * - Resource attributes "service.name" and "deployment.environment.name" taken from the service and env
+ * - Error attributes mapped to the OpenTelemetry exception semantic conventions
+ * - Batches records by count and time, retries with exponential backoff and supports a fallback logger
+ * - Only logs at or above the configured minimum level are exported (by default Debug only in development environment)
+ */
+export class OtlpLogger extends HttpLogger
+{
+    private static readonly _severityNumbers: Readonly<Record<string, number>> = {
+        [LogLevel.trace]: 1,
+        [LogLevel.debug]: 5,
+        [LogLevel.info]: 9,
+        [LogLevel.warn]: 13,
+        [LogLevel.error]: 17,
+        [LogLevel.fatal]: 21
+    };
+    // keys of the record that are mapped to dedicated OTLP LogRecord fields or resource attributes
+    private static readonly _mappedKeys: ReadonlyArray<string> = ["source", "service", "env", "level", "message",
+        "dateTime", "time", "trace_id", "span_id", "trace_flags"];
+    private static readonly _attributeKeys: Readonly<Record<string, string>> = {
+        "error.kind": "exception.type",
+        "error.message": "exception.message",
+        "error.stack": "exception.stacktrace"
+    };
+
+    private readonly _resourceAttributes: ReadonlyArray<OtlpKeyValue>;
+
+
+    /**
+     * Creates a new instance of OtlpLogger
+     * @param config - Configuration for the OTLP logger
+     */
+    public constructor(config: OtlpLoggerConfig)
+    {
+        given(config, "config").ensureHasValue().ensureIsObject();
+
+        super({ ...config, url: config.url ?? "http://localhost:4318/v1/logs", format: "json" });
+
+        const { resourceAttributes } = config;
+        given(resourceAttributes, "resourceAttributes").ensureIsObject();
+
+        this._resourceAttributes = Object.entries({
+            "service.name": this.service,
+            "deployment.environment.name": this.env,
+            "telemetry.sdk.language": this.source,
+            ...resourceAttributes
+        }).map(([key, value]) => ({ key, value: this._toAnyValue(value) }));
+    }
+
+
+    /**
+     * Creates an OTLP ExportLogsServiceRequest for a batch of records
+     * @param messages - The records of the batch
+     * @returns The request body
+     */
+    protected override createRequestBody(messages: ReadonlyArray<LogRecord>): string
+    {
+        const observedTimeUnixNano = this._toUnixNano(Date.now());
+
+        return JSON.stringify({
+            resourceLogs: [{
+                resource: { attributes: this._resourceAttributes },
+                scopeLogs: [{
+                    scope: { name: "n-log" },
+                    logRecords: messages.map(t => this._toOtlpLogRecord(t, observedTimeUnixNano))
+                }]
+            }]
+        });
+    }
+
+    private _toOtlpLogRecord(log: LogRecord & Record<string, any>, observedTimeUnixNano: string): object
+    {
+        const attributes = Object.entries(log)
+            .filter(([key, value]) => value !== undefined && !OtlpLogger._mappedKeys.contains(key))
+            .map(([key, value]) => ({
+                key: OtlpLogger._attributeKeys[key] as string | undefined ?? key,
+                value: this._toAnyValue(value)
+            }));
+
+        const otlpLogRecord: Record<string, unknown> = {
+            timeUnixNano: this._toUnixNano(Date.parse(log.time)),
+            observedTimeUnixNano,
+            severityNumber: OtlpLogger._severityNumbers[log.level] ?? 0,
+            severityText: log.level.toUpperCase(),
+            body: { stringValue: log.message },
+            attributes
+        };
+
+        if (typeof log["trace_id"] === "string" && typeof log["span_id"] === "string")
+        {
+            otlpLogRecord["traceId"] = log["trace_id"];
+            otlpLogRecord["spanId"] = log["span_id"];
+
+            if (typeof log["trace_flags"] === "string")
+                otlpLogRecord["flags"] = Number.parseInt(log["trace_flags"], 16);
+        }
+
+        return otlpLogRecord;
+    }
+
+    private _toAnyValue(value: unknown, seen = new Set<object>()): OtlpAnyValue
+    {
+        if (typeof value === "string")
+            return { stringValue: value };
+
+        if (typeof value === "boolean")
+            return { boolValue: value };
+
+        if (typeof value === "number")
+            return Number.isInteger(value) ? { intValue: value.toString() } : { doubleValue: value };
+
+        if (typeof value === "bigint")
+            return { intValue: value.toString() };
+
+        if (value instanceof Date)
+            return { stringValue: value.toISOString() };
+
+        if (value == null || typeof value !== "object")
+            return { stringValue: String(value) };
+
+        // seen only holds the ancestors of the value, so shared references are converted rather than reported
+        if (seen.has(value))
+            return { stringValue: "[Circular]" };
+
+        seen.add(value);
+        const anyValue: OtlpAnyValue = Array.isArray(value)
+            ? { arrayValue: { values: value.map(t => this._toAnyValue(t, seen)) } }
+            : {
+                kvlistValue: {
+                    values: Object.entries(value)
+                        .filter(([_, t]) => t !== undefined)
+                        .map(([key, t]) => ({ key, value: this._toAnyValue(t, seen) }))
+                }
+            };
+        seen.delete(value);
+
+        return anyValue;
+    }
+
+    private _toUnixNano(milliseconds: number): string
+    {
+        return (BigInt(milliseconds) * 1000000n).toString();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+/**
+ * Configuration interface for rate limiting of repeated log records
+ */
+export interface RateLimitConfig
+{
+    /**
+     * Number of records with the same level and message fingerprint that are emitted per window.
+     * Further records in the window are dropped and reported by a single summary record when the window ends.
+     * Must be greater than 0
+     */
+    maxPerWindow: number;
+
+    /**
+     * Length of the window in seconds
+     * Must be greater than 0
+     * @default 60
+     */
+    windowSeconds?: number;
+}
\ No newline at end of file
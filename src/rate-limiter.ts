@@ -0,0 +1,108 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { Duration } from "@nivinjoseph/n-util";
+import { LogFingerprint } from "./log-fingerprint.js";
+import { LogLevel } from "./log-level.js";
+import { RateLimitConfig } from "./rate-limit-config.js";
+
+type RateLimiterWindow = {
+    level: LogLevel;
+    endsAt: number;
+    count: number;
+    suppressedCount: number;
+    firstSuppressedMessage: string | null;
+};
+
+/**
+ * Limits the number of log records with the same level and message fingerprint per window.
+ * A window starts with the first record of a fingerprint. When a window in which records
+ * were suppressed ends, the suppressed count is reported through the callback.
+ */
+export class RateLimiter
+{
+    private readonly _maxPerWindow: number;
+    private readonly _window: Duration;
+    private readonly _onSuppressed: (level: LogLevel, message: string, suppressedCount: number) => void;
+    private readonly _windows = new Map<string, RateLimiterWindow>();
+    private readonly _timer: NodeJS.Timeout;
+
+    /**
+     * Creates a new instance of RateLimiter
+     * @param config - Configuration for the rate limiting
+     * @param onSuppressed - Called with the first suppressed message and the suppressed count when a window ends
+     */
+    public constructor(config: RateLimitConfig,
+        onSuppressed: (level: LogLevel, message: string, suppressedCount: number) => void)
+    {
+        given(config, "config").ensureHasValue().ensureIsObject();
+
+        const { maxPerWindow, windowSeconds } = config;
+
+        given(maxPerWindow, "maxPerWindow").ensureHasValue().ensureIsNumber().ensure(t => t > 0);
+        this._maxPerWindow = Number.parseInt(maxPerWindow.toString());
+
+        given(windowSeconds, "windowSeconds").ensureIsNumber().ensure(t => t > 0);
+        this._window = Duration.fromSeconds(windowSeconds ?? 60);
+
+        given(onSuppressed, "onSuppressed").ensureHasValue().ensureIsFunction();
+        this._onSuppressed = onSuppressed;
+
+        // the timer is created up front so it does not capture the LogContext of a log call
+        this._timer = setInterval(() => this._endWindows(Date.now()),
+            Math.min(this._window.toMilliSeconds(), Duration.fromSeconds(1).toMilliSeconds())).unref();
+    }
+
+    /**
+     * Counts a record against the window of its level and message fingerprint
+     * @param level - The level of the record
+     * @param message - The message of the record
+     * @returns True if the record may be emitted, false if it is suppressed
+     */
+    public tryAcquire(level: LogLevel, message: string): boolean
+    {
+        const key = `${level}:${LogFingerprint.create(message)}`;
+
+        let window = this._windows.get(key);
+        if (window == null)
+        {
+            window = {
+                level,
+                endsAt: Date.now() + this._window.toMilliSeconds(),
+                count: 0,
+                suppressedCount: 0,
+                firstSuppressedMessage: null
+            };
+            this._windows.set(key, window);
+        }
+
+        window.count++;
+        if (window.count <= this._maxPerWindow)
+            return true;
+
+        window.suppressedCount++;
+        window.firstSuppressedMessage ??= message;
+        return false;
+    }
+
+    /**
+     * Stops the limiter, ending all windows immediately so pending suppressed counts are reported
+     */
+    public dispose(): void
+    {
+        clearInterval(this._timer);
+        this._endWindows(Number.POSITIVE_INFINITY);
+    }
+
+    private _endWindows(now: number): void
+    {
+        this._windows.forEach((window, key) =>
+        {
+            if (window.endsAt > now)
+                return;
+
+            this._windows.delete(key);
+
+            if (window.firstSuppressedMessage != null)
+                this._onSuppressed(window.level, window.firstSuppressedMessage, window.suppressedCount);
+        });
+    }
+}
\ No newline at end of file
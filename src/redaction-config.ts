@@ -0,0 +1,31 @@
+/**
+ * Configuration interface for redaction of secrets and PII from log records
+ */
+export interface RedactionConfig
+{
+    /**
+     * Keys of structured fields whose values are replaced entirely, matched case-insensitively.
+     * A plain key (e.g. "password") matches at any depth, a dotted path (e.g. "user.ssn") matches
+     * only that path from the root of the fields.
+     * @default []
+     */
+    keys?: ReadonlyArray<string>;
+
+    /**
+     * Patterns whose matches are replaced in the message and in every string field value
+     * @default []
+     */
+    patterns?: ReadonlyArray<RegExp>;
+
+    /**
+     * Whether to also apply the built-in patterns for email addresses, card numbers and bearer tokens
+     * @default true
+     */
+    useDefaultPatterns?: boolean;
+
+    /**
+     * The text that replaces redacted values
+     * @default "[REDACTED]"
+     */
+    replacement?: string;
+}
\ No newline at end of file
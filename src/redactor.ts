@@ -0,0 +1,151 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { RedactionConfig } from "./redaction-config.js";
+
+/**
+ * Replaces secrets and PII in log messages and structured fields.
+ * Values of configured keys are replaced entirely, matches of the configured patterns
+ * are replaced within strings. Objects and arrays are copied, never modified in place.
+ */
+export class Redactor
+{
+    private static readonly _emailPattern = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g;
+    private static readonly _cardNumberPattern = /\b\d(?:[ -]?\d){12,18}\b/g;
+    private static readonly _bearerTokenPattern = /\bBearer\s+[\w\-.~+/]+=*/gi;
+
+    private readonly _keys: ReadonlyArray<string>;
+    private readonly _paths: ReadonlyArray<string>;
+    private readonly _patterns: ReadonlyArray<RegExp>;
+    private readonly _replacement: string;
+
+    /**
+     * Creates a new instance of Redactor
+     * @param config - Configuration for the redaction
+     */
+    public constructor(config: RedactionConfig)
+    {
+        given(config, "config").ensureHasValue().ensureIsObject();
+
+        const { keys, patterns, useDefaultPatterns, replacement } = config;
+
+        given(keys, "keys").ensureIsArray().ensure(t => t.every(u => typeof u === "string" && u.isNotEmptyOrWhiteSpace()),
+            "must only contain non empty strings");
+        const normalizedKeys = (keys ?? []).map(t => t.trim().toLowerCase());
+        this._keys = normalizedKeys.where(t => !t.includes("."));
+        this._paths = normalizedKeys.where(t => t.includes("."));
+
+        given(patterns, "patterns").ensureIsArray().ensure(t => t.every(u => u instanceof RegExp), "must only contain RegExp");
+        given(useDefaultPatterns, "useDefaultPatterns").ensureIsBoolean();
+        this._patterns = [
+            ...useDefaultPatterns === false
+                ? []
+                : [Redactor._emailPattern, Redactor._cardNumberPattern, Redactor._bearerTokenPattern],
+            // patterns are applied with String.replace, which only replaces every match of global patterns
+            ...(patterns ?? []).map(t => t.global ? t : new RegExp(t.source, `${t.flags}g`))
+        ];
+
+        given(replacement, "replacement").ensureIsString();
+        this._replacement = replacement ?? "[REDACTED]";
+    }
+
+    /**
+     * Checks a candidate card number with the Luhn algorithm to avoid redacting
+     * other long numbers such as ids
+     * @param value - The candidate card number, possibly containing spaces or dashes
+     * @returns True if the digits pass the Luhn check
+     */
+    private static _passesLuhnCheck(value: string): boolean
+    {
+        const digits = value.replace(/\D/g, "");
+
+        let sum = 0;
+        for (let i = 0; i < digits.length; i++)
+        {
+            let digit = Number.parseInt(digits[digits.length - 1 - i]);
+            if (i % 2 === 1)
+            {
+                digit *= 2;
+                if (digit > 9)
+                    digit -= 9;
+            }
+
+            sum += digit;
+        }
+
+        return sum % 10 === 0;
+    }
+
+    /**
+     * Replaces every match of the configured patterns in a string
+     * @param value - The string to redact
+     * @returns The redacted string
+     */
+    public redactString(value: string): string
+    {
+        return this._patterns.reduce((acc, pattern) => acc.replace(pattern, (match) =>
+        {
+            if (pattern === Redactor._cardNumberPattern && !Redactor._passesLuhnCheck(match))
+                return match;
+
+            return this._replacement;
+        }), value);
+    }
+
+    /**
+     * Redacts structured fields, replacing the values of configured keys entirely
+     * and redacting every string value, including those nested in objects and arrays
+     * @param fields - The fields to redact
+     * @returns A redacted copy of the fields
+     */
+    public redactFields(fields: Readonly<Record<string, any>>): Record<string, any>
+    {
+        return this._redactObject(fields, "", new Set<object>());
+    }
+
+    private _redactObject(value: Readonly<Record<string, any>>, path: string, seen: Set<object>): Record<string, any>
+    {
+        seen.add(value);
+
+        const result: Record<string, any> = {};
+        Object.entries(value).forEach(([key, fieldValue]) =>
+        {
+            const fieldPath = path.length > 0 ? `${path}.${key.toLowerCase()}` : key.toLowerCase();
+
+            result[key] = this._keys.contains(key.toLowerCase()) || this._paths.contains(fieldPath)
+                ? this._replacement
+                : this._redactValue(fieldValue, fieldPath, seen);
+        });
+
+        seen.delete(value);
+
+        return result;
+    }
+
+    private _redactValue(value: unknown, path: string, seen: Set<object>): unknown
+    {
+        if (typeof value === "string")
+            return this.redactString(value);
+
+        if (value == null || typeof value !== "object")
+            return value;
+
+        // seen only holds the ancestors of the value, so shared references are redacted rather than reported
+        if (seen.has(value))
+            return "[Circular]";
+
+        if (Array.isArray(value))
+        {
+            seen.add(value);
+            const result = value.map(t => this._redactValue(t, path, seen));
+            seen.delete(value);
+
+            return result;
+        }
+
+        // class instances (e.g. Date) are serialized by their own rules, only plain objects are traversed
+        const prototype = Object.getPrototypeOf(value) as unknown;
+        if (prototype !== Object.prototype && prototype !== null)
+            return value;
+
+        return this._redactObject(value, path, seen);
+    }
+}
\ No newline at end of file
@@ -2,55 +2,153 @@ import { given } from "@nivinjoseph/n-defensive";
 import { Exception } from "@nivinjoseph/n-exception";
 import { Delay, Disposable, Duration, Make, Mutex } from "@nivinjoseph/n-util";
 import SlackWebApi from "@slack/web-api";
+import { DateTime } from "luxon";
+import Path from "node:path";
 import { BaseLogger } from "./base-logger.js";
+import { LogFields } from "./log-fields.js";
+import { LogFingerprint } from "./log-fingerprint.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecordFields } from "./log-record-fields.js";
 import { LogRecord } from "./log-record.js";
 import { Logger } from "./logger.js";
 import { LoggerConfig } from "./logger-config.js";
+import { SlackSpool } from "./slack-spool.js";
+
+/**
+ * A rule that routes Slack messages to a channel
+ */
+export type SlackLoggerRoute = {
+    /** The channel that matching messages are posted to */
+    channel: string;
+    /** Levels of the messages routed to the channel (default: all levels) */
+    levels?: ReadonlyArray<LogLevel>;
+    /** Custom predicate that decides whether a message is routed to the channel */
+    predicate?(record: LogRecord): boolean;
+};
 
 /**
  * Configuration options for the Slack logger
  */
-export type SlackLoggerConfig = Pick<LoggerConfig, "logDateTimeZone" | "logInjector"> & {
+export type SlackLoggerConfig = Pick<LoggerConfig, "logDateTimeZone" | "minLevel" | "logInjector" | "redaction" | "rateLimit"> & {
     /** Slack bot token for authentication */
     slackBotToken: string;
-    /** Slack channel to post logs to */
+    /** Default Slack channel to post logs to, used for messages that match no route */
     slackBotChannel: string;
+    /** Base URL of the Slack Web API, e.g. to post through a proxy (default: https://slack.com/api/) */
+    slackApiUrl?: string;
+    /**
+     * Rules that route messages to other channels, e.g. Error to #alerts-prod and Info to #deploys.
+     * A message is posted to the channel of the first route whose levels and predicate it matches (default: none)
+     */
+    routes?: ReadonlyArray<SlackLoggerRoute>;
     /** Custom username for the bot (default: service name) */
     slackUserName?: string;
     /** Custom user image for the bot (default: robot_face emoji) */
     slackUserImage?: string;
     /** Filter which log levels to post (default: all) */
-    filter?: ReadonlyArray<"Info" | "Warn" | "Error">;
+    filter?: ReadonlyArray<"Info" | "Warn" | "Error" | "Fatal">;
     /** Custom filter function for log records */
     logFilter?(record: LogRecord): boolean;
     /** Fallback logger to use if Slack posting fails */
     fallback?: Logger;
+    /**
+     * Number of retries with exponential backoff before a post is considered failed. Only network errors,
+     * rate limiting and server errors of Slack are retried (default: 10)
+     */
+    maxRetries?: number;
+    /** Seconds between scheduled flushes (default: 15) */
+    flushIntervalSeconds?: number;
+    /** Maximum number of messages per post (default: 20) */
+    batchSize?: number;
+    /** Seconds to wait between the posts of a flush, to stay under Slack's rate limit (default: 1) */
+    batchDelaySeconds?: number;
+    /** Maximum number of queued messages, further messages are dropped by the overflow policy (default: 1000) */
+    maxQueueLength?: number;
+    /**
+     * Which message is dropped when the queue is full: the oldest queued message, the new message,
+     * or the oldest message of the lowest level (default: dropOldest)
+     */
+    overflowPolicy?: "dropOldest" | "dropNewest" | "dropLowestLevel";
+    /**
+     * How messages over Slack's length limits are handled: truncated, or truncated with the full
+     * text posted as a threaded reply (default: truncate)
+     */
+    oversizedMessagePolicy?: "truncate" | "thread";
+    /**
+     * Whether messages of a flush with the same channel, level and message fingerprint are posted once,
+     * with the number of occurrences and the time of the first and last occurrence (default: true)
+     */
+    aggregateRepeatedMessages?: boolean;
+    /**
+     * Absolute path of a directory where messages that could not be posted because of a retryable error
+     * (network errors, rate limiting and server errors of Slack), or were still queued when the process exited,
+     * are persisted. They are replayed by the next SlackLogger with the same directory. Messages that fail with
+     * any other error are sent to the fallback (default: messages are not persisted)
+     */
+    spoolDirPath?: string;
+    /** Hours after they were logged after which persisted messages are discarded instead of replayed (default: 24) */
+    spoolMaxAgeHours?: number;
+    /** Maximum combined size of the persisted messages, the oldest are discarded first (default: 10 MiB) */
+    spoolMaxSizeBytes?: number;
 };
 
 /**
  * Logger implementation that posts logs to a Slack channel.
  * Features:
- * - Posts logs as formatted Slack messages with colors
+ * - Posts logs as Block Kit messages with colors, stack traces as code blocks and fields as field sections
+ * - Truncates texts over Slack's length limits, optionally posting the full text as a threaded reply
+ * - Splits batches into posts that stay under Slack's message limits
+ * - Repeated messages of a flush are posted once with their number of occurrences
+ * - Optional spool directory that persists undelivered messages and replays them on startup
  * - Configurable log level filtering
+ * - Routing of messages to channels by level or predicate, each channel is batched separately
+ * - Structured fields and the trace id of the active span shown as field sections
  * - Customizable bot appearance
- * - Batches messages and sends them every 30 seconds
+ * - Batches messages and sends them on a configurable interval (default 15 seconds)
+ * - Bounded queue with a configurable overflow policy, dropped messages are reported in a summary message
  * - Fallback logger support for error handling
- * - Debug logs only posted in development environment
+ * - Only logs at or above the configured minimum level are posted (by default Debug only in development environment)
  */
 export class SlackLogger extends BaseLogger implements Disposable
 {
+    // Slack's limits on text lengths and on the size of a message
+    private static readonly _maxSectionLength = 3000;
+    private static readonly _maxFieldLength = 2000;
+    private static readonly _maxFieldsPerSection = 10;
+    private static readonly _maxFieldSections = 4;
+    private static readonly _maxBlocksPerPost = 50;
+    private static readonly _maxAttachmentsPerPost = 20;
+    // errors of the Slack API that are not caused by the request itself
+    private static readonly _retryablePlatformErrors: ReadonlyArray<string> = ["ratelimited", "internal_error", "fatal_error",
+        "service_unavailable", "request_timeout"];
+    private static readonly _instances = new Set<SlackLogger>();
+    private static _isExitHookRegistered = false;
+
     private readonly _includeInfo: boolean;
     private readonly _includeWarn: boolean;
     private readonly _includeError: boolean;
+    private readonly _includeFatal: boolean;
     private readonly _logFilter: (record: LogRecord) => boolean;
     private readonly _fallbackLogger: Logger | null;
+    private readonly _maxRetries: number;
     private readonly _slackWebClient: SlackWebApi.WebClient;
     private readonly _channel: string;
+    private readonly _routes: ReadonlyArray<SlackLoggerRoute>;
     private readonly _userName: string;
     private readonly _userImage: string = ":robot_face:";
     private readonly _userImageIsEmoji: boolean;
+    private readonly _flushInterval: Duration;
+    private readonly _batchSize: number;
+    private readonly _batchDelay: Duration;
+    private readonly _maxQueueLength: number;
+    private readonly _overflowPolicy: "dropOldest" | "dropNewest" | "dropLowestLevel";
+    private readonly _oversizedMessagePolicy: "truncate" | "thread";
+    private readonly _aggregateRepeatedMessages: boolean;
+    private readonly _spool: SlackSpool<QueuedSlackMessage> | null;
+    private readonly _replayPromise: Promise<void>;
     private readonly _flushMutex = new Mutex();
-    private _messages = new Array<SlackMessage>();
+    private _messages = new Array<QueuedSlackMessage>();
+    private _droppedCount = 0;
     private _timer: NodeJS.Timeout;
     private _isDisposed = false;
     private _disposePromise: Promise<void> | null = null;
@@ -65,14 +163,35 @@ export class SlackLogger extends BaseLogger implements Disposable
         super(config);
 
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        const { slackBotToken, slackBotChannel, slackUserName, slackUserImage, logFilter } = config;
+        const { slackBotToken, slackBotChannel, slackApiUrl, routes, slackUserName, slackUserImage, logFilter, flushIntervalSeconds,
+            maxRetries, batchSize, batchDelaySeconds, maxQueueLength, overflowPolicy, oversizedMessagePolicy,
+            aggregateRepeatedMessages, spoolDirPath, spoolMaxAgeHours, spoolMaxSizeBytes } = config;
 
         given(slackBotToken, "slackBotToken").ensureHasValue().ensureIsString();
-        this._slackWebClient = new SlackWebApi.WebClient(slackBotToken);
+        given(slackApiUrl, "slackApiUrl").ensureIsString().ensure(t => URL.canParse(t), "must be a valid absolute url");
+        // posts are retried by the logger, the default retries of the client take about 30 minutes and hold up the flush
+        this._slackWebClient = new SlackWebApi.WebClient(slackBotToken, {
+            slackApiUrl,
+            retryConfig: { retries: 0 },
+            rejectRateLimitedCalls: true
+        });
 
         given(slackBotChannel, "slackBotChannel").ensureHasValue().ensureIsString();
         this._channel = slackBotChannel;
 
+        given(routes, "routes").ensureIsArray();
+        routes?.forEach((t, index) =>
+        {
+            given(t, `routes[${index}]`).ensureHasValue().ensureIsObject();
+            given(t.channel, `routes[${index}].channel`).ensureHasValue().ensureIsString()
+                .ensure(u => u.isNotEmptyOrWhiteSpace());
+            given(t.levels, `routes[${index}].levels`).ensureIsArray()
+                .ensure(u => u.every(v => Object.values(LogLevel).contains(v)), "must only contain LogLevel values");
+            // eslint-disable-next-line @typescript-eslint/unbound-method
+            given(t.predicate, `routes[${index}].predicate`).ensureIsFunction();
+        });
+        this._routes = [...routes ?? []];
+
         given(slackUserName, "slackUserName").ensureIsString();
         if (slackUserName != null && slackUserName.isNotEmptyOrWhiteSpace())
             this._userName = slackUserName;
@@ -85,12 +204,13 @@ export class SlackLogger extends BaseLogger implements Disposable
 
         this._userImageIsEmoji = this._userImage.startsWith(":") && this._userImage.endsWith(":");
 
-        const allFilters = ["Info", "Warn", "Error"];
+        const allFilters = ["Info", "Warn", "Error", "Fatal"];
         const filter = config.filter ?? allFilters;
         given(filter, "filter").ensureIsArray().ensure(t => t.every(u => allFilters.contains(u)));
         this._includeInfo = filter.contains("Info");
         this._includeWarn = filter.contains("Warn");
         this._includeError = filter.contains("Error");
+        this._includeFatal = filter.contains("Fatal");
 
         given(logFilter, "logFilter").ensureIsFunction();
 
@@ -98,133 +218,273 @@ export class SlackLogger extends BaseLogger implements Disposable
 
         this._fallbackLogger = config.fallback ?? null;
 
+        given(maxRetries, "maxRetries").ensureIsNumber().ensure(t => t > 0);
+        this._maxRetries = maxRetries != null ? Number.parseInt(maxRetries.toString()) : 10;
+
+        given(flushIntervalSeconds, "flushIntervalSeconds").ensureIsNumber().ensure(t => t > 0);
+        this._flushInterval = Duration.fromSeconds(flushIntervalSeconds ?? 15);
+
+        given(batchSize, "batchSize").ensureIsNumber().ensure(t => t > 0);
+        this._batchSize = batchSize != null ? Number.parseInt(batchSize.toString()) : 20;
+
+        given(batchDelaySeconds, "batchDelaySeconds").ensureIsNumber().ensure(t => t >= 0);
+        this._batchDelay = Duration.fromSeconds(batchDelaySeconds ?? 1);
+
+        given(maxQueueLength, "maxQueueLength").ensureIsNumber().ensure(t => t > 0);
+        this._maxQueueLength = maxQueueLength != null ? Number.parseInt(maxQueueLength.toString()) : 1000;
+
+        given(overflowPolicy, "overflowPolicy").ensureIsString()
+            .ensure(t => ["dropOldest", "dropNewest", "dropLowestLevel"].contains(t));
+        this._overflowPolicy = overflowPolicy ?? "dropOldest";
+
+        given(oversizedMessagePolicy, "oversizedMessagePolicy").ensureIsString().ensure(t => ["truncate", "thread"].contains(t));
+        this._oversizedMessagePolicy = oversizedMessagePolicy ?? "truncate";
+
+        given(aggregateRepeatedMessages, "aggregateRepeatedMessages").ensureIsBoolean();
+        this._aggregateRepeatedMessages = aggregateRepeatedMessages ?? true;
+
+        given(spoolDirPath, "spoolDirPath").ensureIsString().ensure(t => Path.isAbsolute(t), "must be absolute");
+        given(spoolMaxAgeHours, "spoolMaxAgeHours").ensureIsNumber().ensure(t => t > 0);
+        given(spoolMaxSizeBytes, "spoolMaxSizeBytes").ensureIsNumber().ensure(t => t > 0);
+        this._spool = spoolDirPath != null
+            ? new SlackSpool(spoolDirPath, Duration.fromHours(spoolMaxAgeHours ?? 24), spoolMaxSizeBytes ?? 10 * 1024 * 1024)
+            : null;
+
         this._timer = this._createLogFlushTimeout();
+
+        if (this._spool != null)
+        {
+            SlackLogger._register(this);
+            this._replayPromise = this._replaySpool()
+                .catch(e => this._fallbackLogger?.logError(e).catch(e => console.error(e)) ?? console.error(e));
+        }
+        else
+            this._replayPromise = Promise.resolve();
+    }
+
+    /**
+     * Keeps track of a logger with a spool directory so its queued messages can be persisted when the
+     * process exits. The exit hook is registered once for all loggers.
+     * Note: "exit" is not emitted on termination by a signal, so applications should dispose their loggers on shutdown.
+     * @param logger - The logger to keep track of
+     */
+    private static _register(logger: SlackLogger): void
+    {
+        SlackLogger._instances.add(logger);
+
+        if (SlackLogger._isExitHookRegistered)
+            return;
+
+        SlackLogger._isExitHookRegistered = true;
+        process.on("exit", () =>
+        {
+            SlackLogger._instances.forEach(t =>
+            {
+                try
+                {
+                    t._spool?.writeSync(t._messages);
+                    t._messages = [];
+                }
+                catch (error)
+                {
+                    console.error(error);
+                }
+            });
+        });
+    }
+
+    /**
+     * Logs a trace message to Slack.
+     * Only posts when the trace level is enabled.
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        if (this._isDisposedDrop())
+            return;
+
+        if (this.isLevelEnabled(LogLevel.trace))
+        {
+            let log: SlackMessage = {
+                ...this.createLogRecord(LogLevel.trace, trace, fields),
+                color: "#D9D9D9"
+            };
+
+            if (this.isRateLimited(LogLevel.trace, log.message))
+                return;
+
+            this.injectTrace(log);
+
+            if (this.logInjector)
+                log = this.logInjector(log) as SlackMessage;
+
+            this._enqueue(log);
+        }
     }
 
     /**
      * Logs a debug message to Slack.
-     * Only posts in development environment.
+     * Only posts when the debug level is enabled.
      * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is queued
      */
-    public async logDebug(debug: string): Promise<void>
+    public async logDebug(debug: string, fields?: LogFields): Promise<void>
     {
         if (this._isDisposedDrop())
             return;
 
-        if (this.env === "dev")
+        if (this.isLevelEnabled(LogLevel.debug))
         {
             let log: SlackMessage = {
-                source: this.source,
-                service: this.service,
-                env: this.env,
-                level: "Debug",
-                message: debug,
-                ...this.getDateTime(),
+                ...this.createLogRecord(LogLevel.debug, debug, fields),
                 color: "#F8F8F8"
             };
 
+            if (this.isRateLimited(LogLevel.debug, log.message))
+                return;
+
+            this.injectTrace(log);
+
             if (this.logInjector)
                 log = this.logInjector(log) as SlackMessage;
 
-            this._messages.push(log);
+            this._enqueue(log);
         }
     }
 
     /**
      * Logs an informational message to Slack in green.
      * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is queued
      */
-    public async logInfo(info: string): Promise<void>
+    public async logInfo(info: string, fields?: LogFields): Promise<void>
     {
         if (this._isDisposedDrop())
             return;
 
-        if (!this._includeInfo)
+        if (!this._includeInfo || !this.isLevelEnabled(LogLevel.info))
             return;
 
         let log: SlackMessage = {
-            source: this.source,
-            service: this.service,
-            env: this.env,
-            level: "Info",
-            message: info,
-            ...this.getDateTime(),
+            ...this.createLogRecord(LogLevel.info, info, fields),
             color: "#259D2F"
         };
 
         if (!this._logFilter(log))
             return;
 
+        if (this.isRateLimited(LogLevel.info, log.message))
+            return;
+
+        this.injectTrace(log);
+
         if (this.logInjector)
             log = this.logInjector(log) as SlackMessage;
 
-        this._messages.push(log);
+        this._enqueue(log);
     }
 
     /**
      * Logs a warning message or exception to Slack in yellow.
      * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is queued
      */
-    public async logWarning(warning: string | Exception): Promise<void>
+    public async logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
     {
         if (this._isDisposedDrop())
             return;
 
-        if (!this._includeWarn)
+        if (!this._includeWarn || !this.isLevelEnabled(LogLevel.warn))
             return;
 
         let log: SlackMessage = {
-            source: this.source,
-            service: this.service,
-            env: this.env,
-            level: "Warn",
-            message: this.getErrorMessage(warning),
-            ...this.getDateTime(),
+            ...this.createLogRecord(LogLevel.warn, this.getErrorMessage(warning), fields),
             color: "#F1AB2A"
         };
 
         if (!this._logFilter(log))
             return;
 
+        if (this.isRateLimited(LogLevel.warn, log.message))
+            return;
+
+        this.injectTrace(log);
+
         if (this.logInjector)
             log = this.logInjector(log) as SlackMessage;
 
-        this._messages.push(log);
+        this._enqueue(log);
     }
 
     /**
      * Logs an error message or exception to Slack in red.
      * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
      * @returns A promise that resolves when the log is queued
      */
-    public async logError(error: string | Exception): Promise<void>
+    public async logError(error: string | Exception, fields?: LogFields): Promise<void>
     {
         if (this._isDisposedDrop())
             return;
 
-        if (!this._includeError)
+        if (!this._includeError || !this.isLevelEnabled(LogLevel.error))
             return;
 
         let log: SlackMessage = {
-            source: this.source,
-            service: this.service,
-            env: this.env,
-            level: "Error",
-            message: this.getErrorMessage(error),
-            ...this.getDateTime(),
+            ...this.createLogRecord(LogLevel.error, this.getErrorMessage(error), fields),
             color: "#EF401D"
         };
 
         if (!this._logFilter(log))
             return;
 
+        if (this.isRateLimited(LogLevel.error, log.message))
+            return;
+
+        this.injectTrace(log, true);
+
         if (this.logInjector)
             log = this.logInjector(log) as SlackMessage;
 
-        this._messages.push(log);
+        this._enqueue(log);
+    }
+
+    /**
+     * Logs a fatal message or exception to Slack in dark red.
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is queued
+     */
+    public async logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        if (this._isDisposedDrop())
+            return;
+
+        if (!this._includeFatal || !this.isLevelEnabled(LogLevel.fatal))
+            return;
+
+        let log: SlackMessage = {
+            ...this.createLogRecord(LogLevel.fatal, this.getErrorMessage(fatal), fields),
+            color: "#8B0000"
+        };
+
+        if (!this._logFilter(log))
+            return;
+
+        if (this.isRateLimited(LogLevel.fatal, log.message))
+            return;
+
+        this.injectTrace(log, true);
+
+        if (this.logInjector)
+            log = this.logInjector(log) as SlackMessage;
+
+        this._enqueue(log);
     }
 
     /**
@@ -235,9 +495,12 @@ export class SlackLogger extends BaseLogger implements Disposable
     {
         if (!this._isDisposed)
         {
+            // summaries of suppressed records are queued before the logger stops accepting log calls
+            this.disposeRateLimiter();
             this._isDisposed = true;
             clearTimeout(this._timer);
-            this._disposePromise = this._flushMessages();
+            SlackLogger._instances.delete(this);
+            this._disposePromise = this._replayPromise.then(() => this._flushMessages());
         }
 
         return this._disposePromise!;
@@ -249,7 +512,68 @@ export class SlackLogger extends BaseLogger implements Disposable
         {
             this._flushMessages()
                 .catch(e => this._fallbackLogger?.logError(e).catch(e => console.error(e)) ?? console.error(e));
-        }, Duration.fromSeconds(15).toMilliSeconds());
+        }, this._flushInterval.toMilliSeconds());
+    }
+
+    /**
+     * Queues the messages persisted in the spool directory ahead of the messages logged since startup.
+     * If the queue exceeds its maximum length, the oldest messages are dropped.
+     * @returns A promise that resolves when the messages are queued
+     */
+    private async _replaySpool(): Promise<void>
+    {
+        const messages = await this._spool!.take();
+        if (messages.isEmpty)
+            return;
+
+        this._messages.unshift(...messages);
+
+        const excess = this._messages.length - this._maxQueueLength;
+        if (excess > 0)
+        {
+            this._messages.splice(0, excess);
+            this._droppedCount += excess;
+        }
+    }
+
+    /**
+     * Adds a message to the queue for the channel it is routed to. When the queue is full, the configured
+     * overflow policy decides which message is dropped, and the dropped message is counted for the summary.
+     * @param log - The message to add
+     */
+    private _enqueue(log: SlackMessage): void
+    {
+        const route = this._routes.find(t => (t.levels == null || t.levels.contains(log.level as LogLevel))
+            && (t.predicate == null || t.predicate(log)));
+        const message: QueuedSlackMessage = { ...log, channel: route?.channel ?? this._channel };
+
+        if (this._messages.length >= this._maxQueueLength)
+        {
+            this._droppedCount++;
+
+            switch (this._overflowPolicy)
+            {
+                case "dropNewest":
+                    return;
+                case "dropOldest":
+                    this._messages.shift();
+                    break;
+                case "dropLowestLevel":
+                {
+                    const levelOf = (t: SlackMessage): number => this.getLevelRank(t.level);
+                    const lowestLevel = Math.min(...this._messages.map(levelOf));
+
+                    // a new message of a level below every queued message is the one dropped
+                    if (levelOf(message) < lowestLevel)
+                        return;
+
+                    this._messages.splice(this._messages.findIndex(t => levelOf(t) === lowestLevel), 1);
+                    break;
+                }
+            }
+        }
+
+        this._messages.push(message);
     }
 
     /**
@@ -275,8 +599,11 @@ export class SlackLogger extends BaseLogger implements Disposable
      * Flushes queued messages to Slack.
      * Serialized via a mutex so concurrent invocations (timer + dispose,
      * overlapping timer ticks) cannot interleave or post out of order.
-     * Drains the queue fully, posting in batches of 20 with a 1s gap
-     * between batches to stay under Slack's rate limit.
+     * Drains the queue fully, posting a batch of up to the configured size per channel at a time,
+     * starting with the channel of the oldest message, with the configured gap between batches
+     * to stay under Slack's rate limit.
+     * Repeated messages are aggregated, and messages dropped since the last flush are reported
+     * in a summary message posted first to the default channel.
      * @returns A promise that resolves when messages are flushed
      */
     private async _flushMessages(): Promise<void>
@@ -284,15 +611,33 @@ export class SlackLogger extends BaseLogger implements Disposable
         await this._flushMutex.lock();
         try
         {
+            if (this._aggregateRepeatedMessages)
+                this._messages = this._aggregate(this._messages);
+
+            if (this._droppedCount > 0)
+            {
+                const droppedCount = this._droppedCount;
+                this._droppedCount = 0;
+
+                this._messages.unshift({
+                    ...this.createLogRecord(LogLevel.warn,
+                        `Dropped ${droppedCount} messages because the queue reached its maximum length of ${this._maxQueueLength}.`,
+                        { droppedCount }),
+                    color: "#F1AB2A",
+                    channel: this._channel
+                });
+            }
+
             while (!this._messages.isEmpty)
             {
-                const messagesToFlush = this._messages.take(20);
-                this._messages = this._messages.skip(20);
+                const channel = this._messages[0].channel;
+                const messagesToFlush = this._messages.where(t => t.channel === channel).take(this._batchSize);
+                this._messages = this._messages.where(t => !messagesToFlush.contains(t));
 
-                await this._postMessages(messagesToFlush);
+                await this._postMessages(channel, messagesToFlush);
 
                 if (!this._messages.isEmpty)
-                    await Delay.seconds(1);
+                    await Delay.milliseconds(this._batchDelay.toMilliSeconds());
             }
         }
         finally
@@ -304,57 +649,116 @@ export class SlackLogger extends BaseLogger implements Disposable
     }
 
     /**
-     * Posts messages to Slack
+     * Groups messages by channel, level and message fingerprint. Each group is represented by its
+     * first occurrence, which keeps the full message (e.g. the stack), with the number of occurrences
+     * and the time of the last one.
+     * @param messages - The messages to group, in queue order
+     * @returns The first occurrence of every group, in queue order
+     */
+    private _aggregate(messages: ReadonlyArray<QueuedSlackMessage>): Array<QueuedSlackMessage>
+    {
+        const groups = new Map<string, QueuedSlackMessage>();
+        messages.forEach(t =>
+        {
+            const key = `${t.channel}:${t.level}:${LogFingerprint.create(t.message)}`;
+
+            const group = groups.get(key);
+            if (group == null)
+            {
+                groups.set(key, t);
+                return;
+            }
+
+            groups.set(key, {
+                ...group,
+                occurrences: {
+                    count: (group.occurrences?.count ?? 1) + (t.occurrences?.count ?? 1),
+                    lastDateTime: t.occurrences?.lastDateTime ?? t.dateTime
+                }
+            });
+        });
+
+        return [...groups.values()];
+    }
+
+    /**
+     * Posts messages to a Slack channel.
+     * The messages are split into posts that stay under Slack's limits on attachments and blocks
+     * per message, and each post falls back on its own if it fails.
+     * @param channel - The channel to post to
      * @param messages - The messages to post
      * @returns A promise that resolves when messages are posted
      */
-    private async _postMessages(messages: ReadonlyArray<SlackMessage>): Promise<void>
+    private async _postMessages(channel: string, messages: ReadonlyArray<QueuedSlackMessage>): Promise<void>
     {
-        try 
+        const posts = new Array<Array<SlackAttachmentEntry>>();
+        let blockCount = 0;
+        messages.forEach(log =>
         {
-            // slackMsg: SlackWebApi.ChatPostMessageArguments = {
-            //     username: this._userName,
-            //     icon_emoji: this._userImageIsEmoji ? this._userImage : undefined,
-            //     icon_url: !this._userImageIsEmoji ? this._userImage : undefined,
+            const entry = this._createAttachment(log);
+            const blocks = entry.attachment.blocks.length;
 
-            // };
+            const post = posts.at(-1);
+            if (post == null || post.length >= SlackLogger._maxAttachmentsPerPost
+                || blockCount + blocks > SlackLogger._maxBlocksPerPost)
+            {
+                posts.push([entry]);
+                blockCount = blocks;
+            }
+            else
+            {
+                post.push(entry);
+                blockCount += blocks;
+            }
+        });
 
-            await Make.retryWithExponentialBackoff(() =>
+        for (const [index, post] of posts.entries())
+        {
+            if (index > 0)
+                await Delay.milliseconds(this._batchDelay.toMilliSeconds());
+
+            await this._postAttachments(channel, post);
+        }
+    }
+
+    /**
+     * Posts attachments as a single Slack message. With the thread policy for oversized messages,
+     * the full text of every truncated message is posted as a threaded reply.
+     * @param channel - The channel to post to
+     * @param entries - The attachments to post, with the messages they were created from
+     * @returns A promise that resolves when the attachments are posted
+     */
+    private async _postAttachments(channel: string, entries: ReadonlyArray<SlackAttachmentEntry>): Promise<void>
+    {
+        const messages = entries.map(t => t.log);
+
+        try 
+        {
+            const result = await Make.retryWithExponentialBackoff(() =>
             {
                 return this._slackWebClient.chat.postMessage({
                     username: this._userName,
                     // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
                     icon_emoji: this._userImageIsEmoji ? this._userImage : undefined as any,
                     icon_url: !this._userImageIsEmoji ? this._userImage : undefined,
-                    channel: this._channel,
+                    channel,
                     text: `${this.service} [${this.env}]`,
-                    attachments: messages.map(log =>
-                    {
-                        return {
-                            color: log.color,
-                            blocks: [
-                                {
-                                    type: "section",
-                                    text: {
-                                        type: "plain_text",
-                                        text: log.message
-                                    }
-                                },
-                                {
-                                    type: "context",
-                                    elements: [{
-                                        type: "plain_text",
-                                        text: log.dateTime
-                                    }]
-                                }
-                            ]
-                        };
-                    }),
+                    attachments: entries.map(t => t.attachment)
                 });
-            }, 10)();
+            }, this._maxRetries, e => this._isRetryable(e))();
+
+            const threadTs = result.ts;
+            if (this._oversizedMessagePolicy === "thread" && threadTs != null)
+            {
+                await entries.where(t => t.isTruncated)
+                    .forEachAsync(t => this._postFullText(channel, threadTs, t.log.message), 1);
+            }
         }
         catch (error)
         {
+            if (await this._trySpool(messages, error))
+                return;
+
             if (this._fallbackLogger != null)
             {
                 await this._fallbackLogger.logWarning("Error while posting to slack.");
@@ -364,6 +768,9 @@ export class SlackLogger extends BaseLogger implements Disposable
                 {
                     switch (log.level)
                     {
+                        case "Trace":
+                            await this._fallbackLogger!.logTrace(log.message);
+                            break;
                         case "Debug":
                             await this._fallbackLogger!.logDebug(log.message);
                             break;
@@ -376,6 +783,9 @@ export class SlackLogger extends BaseLogger implements Disposable
                         case "Error":
                             await this._fallbackLogger!.logError(log.message);
                             break;
+                        case "Fatal":
+                            await this._fallbackLogger!.logFatal(log.message);
+                            break;
                         default:
                             await this._fallbackLogger!.logError(log.message);
                     }
@@ -390,6 +800,9 @@ export class SlackLogger extends BaseLogger implements Disposable
                 {
                     switch (log.level)
                     {
+                        case "Trace":
+                            console.info(log.message);
+                            break;
                         case "Debug":
                             console.info(log.message);
                             break;
@@ -402,6 +815,9 @@ export class SlackLogger extends BaseLogger implements Disposable
                         case "Error":
                             console.error(log.message);
                             break;
+                        case "Fatal":
+                            console.error(log.message);
+                            break;
                         default:
                             console.error(log.message);
                     }
@@ -409,10 +825,235 @@ export class SlackLogger extends BaseLogger implements Disposable
             }
         }
     }
+
+    /**
+     * Persists messages that could not be posted because of a retryable error to the spool directory,
+     * if one is configured, and reports the error. Messages that failed with a permanent error would
+     * fail again on every replay, so they are left to the fallback.
+     * @param messages - The messages that could not be posted
+     * @param error - The error that occurred while posting
+     * @returns True if the messages were persisted, false if they still need to be handled
+     */
+    private async _trySpool(messages: ReadonlyArray<QueuedSlackMessage>, error: unknown): Promise<boolean>
+    {
+        if (this._spool == null || !this._isRetryable(error))
+            return false;
+
+        try
+        {
+            await this._spool.write(messages);
+        }
+        catch (spoolError)
+        {
+            console.error(spoolError);
+            return false;
+        }
+
+        const warning = "Error while posting to slack. Messages are persisted to the spool directory to be replayed.";
+        if (this._fallbackLogger != null)
+        {
+            await this._fallbackLogger.logWarning(warning);
+            await this._fallbackLogger.logError(error as any);
+        }
+        else
+        {
+            console.warn(warning);
+            console.error(error as any);
+        }
+
+        return true;
+    }
+
+    /**
+     * Checks whether a failed post may succeed when retried: network errors, rate limiting and server errors of Slack.
+     * Any other error (e.g. invalid_blocks or channel_not_found) is caused by the request and is permanent.
+     * @param error - The error that occurred while posting
+     * @returns True if the error is retryable
+     */
+    private _isRetryable(error: unknown): boolean
+    {
+        if (error == null || typeof error !== "object")
+            return false;
+
+        const { code, statusCode, data } = error as Partial<{ code: SlackWebApi.ErrorCode; statusCode: number; data: { error?: string; }; }>;
+        switch (code)
+        {
+            case SlackWebApi.ErrorCode.RequestError:
+            case SlackWebApi.ErrorCode.RateLimitedError:
+                return true;
+            case SlackWebApi.ErrorCode.HTTPError:
+                return statusCode != null && (statusCode === 429 || statusCode >= 500);
+            case SlackWebApi.ErrorCode.PlatformError:
+                return data?.error != null && SlackLogger._retryablePlatformErrors.contains(data.error);
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Posts the full text of a truncated message as a threaded reply, as code blocks of at most
+     * the section length. Failures are reported to the fallback logger, as the message itself was posted.
+     * @param channel - The channel of the thread
+     * @param threadTs - The timestamp of the message that starts the thread
+     * @param text - The full text of the message
+     */
+    private async _postFullText(channel: string, threadTs: string, text: string): Promise<void>
+    {
+        // 6 characters are taken by the code block markers
+        const chunkLength = SlackLogger._maxSectionLength - 6;
+        const escaped = this._escape(text).replaceAll("```", "`` `");
+        const blocks = new Array<SlackBlock>();
+        for (let i = 0; i < escaped.length && blocks.length < SlackLogger._maxBlocksPerPost; i += chunkLength)
+        {
+            const isLast = blocks.length === SlackLogger._maxBlocksPerPost - 1;
+            const chunk = isLast ? this._truncate(escaped.substring(i), chunkLength) : escaped.substring(i, i + chunkLength);
+            blocks.push({ type: "section", text: { type: "mrkdwn", text: `\`\`\`${chunk}\`\`\`` } });
+        }
+
+        try
+        {
+            await Make.retryWithExponentialBackoff(() =>
+            {
+                return this._slackWebClient.chat.postMessage({
+                    username: this._userName,
+                    // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+                    icon_emoji: this._userImageIsEmoji ? this._userImage : undefined as any,
+                    icon_url: !this._userImageIsEmoji ? this._userImage : undefined,
+                    channel,
+                    thread_ts: threadTs,
+                    text: text.split("\n")[0],
+                    blocks
+                });
+            }, this._maxRetries, e => this._isRetryable(e))();
+        }
+        catch (error)
+        {
+            if (this._fallbackLogger != null)
+                await this._fallbackLogger.logError(error as any);
+            else
+                console.error(error);
+        }
+    }
+
+    /**
+     * Creates the attachment of a message: the first line of the message as a mrkdwn section,
+     * the remaining lines (e.g. a stack trace) as a code block, the env, trace id and structured
+     * fields as field sections, and the date time as context. Texts over Slack's limits are truncated.
+     * @param log - The message
+     * @returns The attachment, and whether text of the message was truncated
+     */
+    private _createAttachment(log: QueuedSlackMessage): SlackAttachmentEntry
+    {
+        const { color, channel: _, occurrences, ...record } = log;
+
+        const newLineIndex = log.message.indexOf("\n");
+        const summary = this._escape(newLineIndex >= 0 ? log.message.substring(0, newLineIndex) : log.message);
+        const details = newLineIndex >= 0 ? this._escape(log.message.substring(newLineIndex + 1)).replaceAll("```", "`` `") : "";
+
+        const blocks = new Array<SlackBlock>();
+        let isTruncated = summary.length > SlackLogger._maxSectionLength;
+        blocks.push({ type: "section", text: { type: "mrkdwn", text: this._truncate(summary, SlackLogger._maxSectionLength) } });
+
+        if (details.trim().length > 0)
+        {
+            // 6 characters are taken by the code block markers
+            isTruncated = isTruncated || details.length > SlackLogger._maxSectionLength - 6;
+            blocks.push({
+                type: "section",
+                text: { type: "mrkdwn", text: `\`\`\`${this._truncate(details, SlackLogger._maxSectionLength - 6)}\`\`\`` }
+            });
+        }
+
+        const fields = [["env", log.env] as [string, unknown]];
+        const traceId = (record as Record<string, unknown>)["trace_id"];
+        if (traceId != null)
+            fields.push(["trace_id", traceId]);
+        fields.push(...LogRecordFields.getFields(record));
+
+        const maxFields = SlackLogger._maxFieldsPerSection * SlackLogger._maxFieldSections;
+        const fieldTexts = fields.take(fields.length > maxFields ? maxFields - 1 : maxFields)
+            .map(([key, value]) => `*${this._escape(key)}*\n${this._escape(LogRecordFields.formatValue(value))}`);
+        if (fields.length > maxFields)
+            fieldTexts.push(`*…*\n${fields.length - maxFields + 1} more fields`);
+
+        for (let i = 0; i < fieldTexts.length; i += SlackLogger._maxFieldsPerSection)
+        {
+            blocks.push({
+                type: "section",
+                fields: fieldTexts.skip(i).take(SlackLogger._maxFieldsPerSection)
+                    .map(t => ({ type: "mrkdwn", text: this._truncate(t, SlackLogger._maxFieldLength) }))
+            });
+        }
+
+        const occurredAt = occurrences != null
+            ? `${log.dateTime} · ×${occurrences.count} between ${this._formatTime(log.dateTime)} and ${this._formatTime(occurrences.lastDateTime)}`
+            : log.dateTime;
+        blocks.push({ type: "context", elements: [{ type: "plain_text", text: occurredAt }] });
+
+        return { log, attachment: { color, blocks }, isTruncated };
+    }
+
+    /**
+     * Truncates a text to a maximum length, preferably at a line break, marking how much was cut
+     * @param text - The text to truncate
+     * @param maxLength - The maximum length of the result
+     * @returns The text if it fits, the truncated text otherwise
+     */
+    private _truncate(text: string, maxLength: number): string
+    {
+        if (text.length <= maxLength)
+            return text;
+
+        const markerLength = 40;
+        const limit = maxLength - markerLength;
+
+        // cutting at a line break keeps stack frames whole, unless that loses more than half the text
+        let cut = text.lastIndexOf("\n", limit);
+        if (cut < limit / 2)
+        {
+            cut = limit;
+
+            // do not cut an escaped character in half
+            const ampersandIndex = text.lastIndexOf("&", cut);
+            if (ampersandIndex > cut - 5 && !text.substring(ampersandIndex, cut).includes(";"))
+                cut = ampersandIndex;
+        }
+
+        return `${text.substring(0, cut)}\n… ${text.length - cut} characters truncated`;
+    }
+
+    private _formatTime(dateTime: string): string
+    {
+        return DateTime.fromISO(dateTime, { setZone: true }).toFormat("HH:mm:ss");
+    }
+
+    /**
+     * Escapes the control characters of Slack mrkdwn
+     * @param text - The text to escape
+     * @returns The escaped text
+     */
+    private _escape(text: string): string
+    {
+        return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+    }
 }
 
 type SlackMessage = LogRecord & { color: string; };
 
+type QueuedSlackMessage = SlackMessage & {
+    channel: string;
+    /** Set when the message represents repeated messages */
+    occurrences?: { count: number; lastDateTime: string; };
+};
+
+type SlackBlock = { type: string; [key: string]: unknown; };
+
+type SlackAttachmentEntry = {
+    log: QueuedSlackMessage;
+    attachment: { color: string; blocks: Array<SlackBlock>; };
+    isTruncated: boolean;
+};
+
 // class DummyReceiver implements Slack.Receiver
 // {
 //     // @ts-expect-error: not used atm
@@ -0,0 +1,245 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { Duration } from "@nivinjoseph/n-util";
+import Fs from "node:fs";
+import Path from "node:path";
+
+type SpoolFile = {
+    fileName: string;
+    writtenAt: number;
+    size: number;
+    // false while the file is written or taken
+    isComplete: boolean;
+};
+
+/**
+ * Persists undelivered Slack messages as JSON files in a spool directory, so they can be
+ * replayed by the next SlackLogger. Every write creates a new file named after the time it
+ * was written. Messages logged longer ago than the maximum age are discarded, and the oldest
+ * files are discarded while the spool exceeds its maximum size. Files left partially written
+ * or claimed by a process that crashed count toward the maximum size and are deleted once
+ * they are older than the maximum age.
+ */
+export class SlackSpool<T extends { readonly time: string; }>
+{
+    // slack-<epoch milliseconds>-<pid>-<sequence>.json, followed by ".tmp" while it is written
+    // or ".<pid>.claimed" while it is taken
+    private static readonly _fileNamePattern = /^slack-(\d+)-\d+-\d+\.json(?:\.tmp|\.\d+\.claimed)?$/;
+    private static _sequence = 0;
+
+    private readonly _dirPath: string;
+    private readonly _maxAge: Duration;
+    private readonly _maxSizeBytes: number;
+
+
+    /**
+     * Creates a new instance of SlackSpool, creating the spool directory if it does not exist.
+     * Stale partially written and claimed files are deleted and the maximum size is enforced.
+     * @param dirPath - The absolute path of the spool directory
+     * @param maxAge - The maximum age of spooled messages
+     * @param maxSizeBytes - The maximum combined size of the spool files
+     */
+    public constructor(dirPath: string, maxAge: Duration, maxSizeBytes: number)
+    {
+        given(dirPath, "dirPath").ensureHasValue().ensureIsString().ensure(t => Path.isAbsolute(t), "must be absolute");
+        given(maxAge, "maxAge").ensureHasValue().ensureIsObject();
+        given(maxSizeBytes, "maxSizeBytes").ensureHasValue().ensureIsNumber().ensure(t => t > 0);
+
+        if (!Fs.existsSync(dirPath))
+            Fs.mkdirSync(dirPath, { recursive: true });
+
+        this._dirPath = dirPath;
+        this._maxAge = maxAge;
+        this._maxSizeBytes = maxSizeBytes;
+
+        this._removeStaleFiles();
+        this._enforceMaxSizeSync();
+    }
+
+
+    /**
+     * Writes messages to a new spool file, then discards the oldest files if the spool exceeds its maximum size.
+     * The file is written under a temporary name and renamed, so a partially written file is never replayed.
+     * @param messages - The messages to write
+     * @returns A promise that resolves when the messages are written
+     */
+    public async write(messages: ReadonlyArray<T>): Promise<void>
+    {
+        if (messages.isEmpty)
+            return;
+
+        const filePath = Path.join(this._dirPath, this._createFileName());
+        await Fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(messages));
+        await Fs.promises.rename(`${filePath}.tmp`, filePath);
+
+        await this._enforceMaxSize();
+    }
+
+    /**
+     * Writes messages to a new spool file synchronously, for use in the process "exit" event
+     * where asynchronous work is not completed. Like write, the file is written under a temporary name and renamed,
+     * then the oldest files are discarded if the spool exceeds its maximum size.
+     * @param messages - The messages to write
+     */
+    public writeSync(messages: ReadonlyArray<T>): void
+    {
+        if (messages.isEmpty)
+            return;
+
+        const filePath = Path.join(this._dirPath, this._createFileName());
+        Fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(messages));
+        Fs.renameSync(`${filePath}.tmp`, filePath);
+
+        this._enforceMaxSizeSync();
+    }
+
+    /**
+     * Takes the messages of all spool files, oldest first. Each file is claimed by renaming it before
+     * it is read and is deleted afterwards, so concurrent loggers never replay the same file.
+     * Messages are expired by the time they were logged rather than the time their file was written,
+     * as messages that fail again are spooled again. Expired messages and unreadable files are discarded.
+     * @returns A promise that resolves with the spooled messages
+     */
+    public async take(): Promise<Array<T>>
+    {
+        const expiresBefore = Date.now() - this._maxAge.toMilliSeconds();
+        const messages = new Array<T>();
+
+        const files = await this._getFiles();
+        await files.where(t => t.isComplete).forEachAsync(async ({ fileName }) =>
+        {
+            const filePath = Path.join(this._dirPath, fileName);
+            const claimedFilePath = `${filePath}.${process.pid}.claimed`;
+
+            try
+            {
+                await Fs.promises.rename(filePath, claimedFilePath);
+            }
+            catch
+            {
+                // claimed by another logger
+                return;
+            }
+
+            try
+            {
+                const fileMessages = JSON.parse(await Fs.promises.readFile(claimedFilePath, "utf8")) as Array<T>;
+                messages.push(...fileMessages.where(t => Date.parse(t.time) >= expiresBefore));
+            }
+            catch (error)
+            {
+                console.error(error);
+            }
+            finally
+            {
+                await Fs.promises.rm(claimedFilePath, { force: true });
+            }
+        }, 1);
+
+        return messages;
+    }
+
+    private _createFileName(): string
+    {
+        return `slack-${Date.now()}-${process.pid}-${SlackSpool._sequence++}.json`;
+    }
+
+    private async _getFiles(): Promise<Array<SpoolFile>>
+    {
+        const fileNames = await Fs.promises.readdir(this._dirPath);
+        const files = new Array<SpoolFile>();
+        await fileNames.forEachAsync(async (fileName) =>
+        {
+            const match = SlackSpool._fileNamePattern.exec(fileName);
+            if (match == null)
+                return;
+
+            try
+            {
+                const stats = await Fs.promises.stat(Path.join(this._dirPath, fileName));
+                files.push({ fileName, writtenAt: Number.parseInt(match[1]), size: stats.size, isComplete: fileName.endsWith(".json") });
+            }
+            catch
+            {
+                // taken by another logger
+            }
+        });
+
+        return this._sortFiles(files);
+    }
+
+    private _getFilesSync(): Array<SpoolFile>
+    {
+        const files = new Array<SpoolFile>();
+        Fs.readdirSync(this._dirPath).forEach(fileName =>
+        {
+            const match = SlackSpool._fileNamePattern.exec(fileName);
+            if (match == null)
+                return;
+
+            try
+            {
+                const stats = Fs.statSync(Path.join(this._dirPath, fileName));
+                files.push({ fileName, writtenAt: Number.parseInt(match[1]), size: stats.size, isComplete: fileName.endsWith(".json") });
+            }
+            catch
+            {
+                // taken by another logger
+            }
+        });
+
+        return this._sortFiles(files);
+    }
+
+    private _sortFiles(files: Array<SpoolFile>): Array<SpoolFile>
+    {
+        return files.sort((a, b) => a.writtenAt - b.writtenAt || a.fileName.localeCompare(b.fileName));
+    }
+
+    /**
+     * Selects the oldest complete files to discard so the spool fits its maximum size.
+     * Partially written and claimed files count toward the size but are in use, so they are not discarded.
+     * @param files - The spool files, oldest first
+     * @returns The names of the files to discard
+     */
+    private _selectOversizedFiles(files: ReadonlyArray<SpoolFile>): Array<string>
+    {
+        let totalSize = files.reduce((acc, t) => acc + t.size, 0);
+        const fileNames = new Array<string>();
+
+        for (const file of files.where(t => t.isComplete))
+        {
+            if (totalSize <= this._maxSizeBytes)
+                break;
+
+            fileNames.push(file.fileName);
+            totalSize -= file.size;
+        }
+
+        return fileNames;
+    }
+
+    private async _enforceMaxSize(): Promise<void>
+    {
+        const fileNames = this._selectOversizedFiles(await this._getFiles());
+        await fileNames.forEachAsync(t => Fs.promises.rm(Path.join(this._dirPath, t), { force: true }), 1);
+    }
+
+    private _enforceMaxSizeSync(): void
+    {
+        this._selectOversizedFiles(this._getFilesSync())
+            .forEach(t => Fs.rmSync(Path.join(this._dirPath, t), { force: true }));
+    }
+
+    /**
+     * Deletes the partially written and claimed files older than the maximum age, which were left behind
+     * by a process that crashed while writing or taking them
+     */
+    private _removeStaleFiles(): void
+    {
+        const staleBefore = Date.now() - this._maxAge.toMilliSeconds();
+
+        this._getFilesSync()
+            .where(t => !t.isComplete && t.writtenAt < staleBefore)
+            .forEach(t => Fs.rmSync(Path.join(this._dirPath, t.fileName), { force: true }));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,548 @@
+import { given } from "@nivinjoseph/n-defensive";
+import { ApplicationException, Exception } from "@nivinjoseph/n-exception";
+import { Disposable, Duration, Mutex } from "@nivinjoseph/n-util";
+import Dgram from "node:dgram";
+import Net from "node:net";
+import Os from "node:os";
+import { BaseLogger } from "./base-logger.js";
+import { LogFields } from "./log-fields.js";
+import { LogLevel } from "./log-level.js";
+import { LogRecord } from "./log-record.js";
+import { Logger } from "./logger.js";
+import { LoggerConfig } from "./logger-config.js";
+
+/**
+ * Configuration options for the syslog logger
+ */
+export type SyslogLoggerConfig = Pick<LoggerConfig, "logDateTimeZone" | "minLevel" | "logInjector" | "enableOtelToDatadogTraceConversion" | "redaction" | "rateLimit"> & {
+    /**
+     * Transport used to send frames: UDP datagrams, TCP with octet counting framing (RFC 6587)
+     * or a local Unix stream socket with newline delimited frames (default: udp).
+     * On the unix transport line breaks are escaped as "#012" and "#015", the way rsyslog escapes control characters.
+     */
+    transport?: "udp" | "tcp" | "unix";
+    /** Host of the syslog server for the udp and tcp transports (default: localhost) */
+    host?: string;
+    /** Port of the syslog server for the udp and tcp transports (default: 514) */
+    port?: number;
+    /**
+     * Path of the Unix stream socket for the unix transport, required with it (e.g. a syslog-ng unix-stream() source).
+     * /dev/log is a datagram socket on most Linux systems (journald, rsyslog) and cannot be used, as Node.js
+     * does not support Unix datagram sockets. Use the udp or tcp transport to a local syslog daemon instead.
+     */
+    path?: string;
+    /** Syslog facility code, 0 - 23 (default: 1, user-level messages) */
+    facility?: number;
+    /** HOSTNAME of the frames (default: the host name of the machine) */
+    hostname?: string;
+    /** SD-ID of the STRUCTURED-DATA element holding the structured fields (default: fields@32473) */
+    structuredDataId?: string;
+    /**
+     * Maximum size in bytes of a UDP frame, longer frames are truncated (default: 2048, as recommended by RFC 5426).
+     * Must be between 480, the size every receiver must accept, and 65507, the maximum UDP payload.
+     */
+    maxUdpMessageBytes?: number;
+    /** Seconds to wait after a failed send before the server is tried again (default: 5) */
+    reconnectIntervalSeconds?: number;
+    /** Fallback logger to use while the syslog server cannot be reached */
+    fallback?: Logger;
+};
+
+/**
+ * Logger implementation that sends RFC 5424 syslog frames.
+ * Features:
+ * - Severity mapped from the log level, configurable facility
+ * - HOSTNAME, APP-NAME (the service) and PROCID in the header
+ * - Structured fields, trace and error attributes in STRUCTURED-DATA
+ * - UDP, TCP with octet counting framing and Unix stream socket transports, multi-line messages stay a single record
+ * - UDP frames are truncated to a configurable maximum size
+ * - Reconnects after failures, records are sent to a fallback logger while the server is unavailable
+ * - Only logs at or above the configured minimum level are sent (by default Debug only in development environment)
+ */
+export class SyslogLogger extends BaseLogger implements Disposable
+{
+    private static readonly _severities: Readonly<Record<string, number>> = {
+        [LogLevel.trace]: 7,
+        [LogLevel.debug]: 7,
+        [LogLevel.info]: 6,
+        [LogLevel.warn]: 4,
+        [LogLevel.error]: 3,
+        [LogLevel.fatal]: 2
+    };
+    // keys of the record that are rendered in the header or MSG, or are the same for every record of the
+    // process, rather than the STRUCTURED-DATA
+    private static readonly _mappedKeys: ReadonlyArray<string> = ["source", "service", "env", "level", "message",
+        "dateTime", "time", "error.stack"];
+
+    private readonly _transport: "udp" | "tcp" | "unix";
+    private readonly _host: string;
+    private readonly _port: number;
+    private readonly _path: string | null;
+    private readonly _facility: number;
+    private readonly _hostname: string;
+    private readonly _appName: string;
+    private readonly _structuredDataId: string;
+    private readonly _maxUdpMessageBytes: number;
+    private readonly _reconnectInterval: Duration;
+    private readonly _fallbackLogger: Logger | null;
+    private readonly _sendMutex = new Mutex();
+    private _socket: Net.Socket | null = null;
+    private _udpSocket: Dgram.Socket | null = null;
+    private _retryAt: number | null = null;
+    private _isDisposed = false;
+    private _disposePromise: Promise<void> | null = null;
+    private _warnedAfterDispose = false;
+
+    /**
+     * Creates a new instance of SyslogLogger
+     * @param config - Configuration for the syslog logger
+     */
+    public constructor(config: SyslogLoggerConfig = {})
+    {
+        super(config);
+
+        const { transport, host, port, path, facility, hostname, structuredDataId, maxUdpMessageBytes,
+            reconnectIntervalSeconds } = config;
+
+        given(transport, "transport").ensureIsString().ensure(t => ["udp", "tcp", "unix"].contains(t));
+        this._transport = transport ?? "udp";
+
+        given(host, "host").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._host = host?.trim() ?? "localhost";
+
+        given(port, "port").ensureIsNumber().ensure(t => Number.isInteger(t) && t > 0 && t < 65536);
+        this._port = port ?? 514;
+
+        given(path, "path").ensureHasValue(this._transport === "unix").ensureIsString().ensure(t => t.isNotEmptyOrWhiteSpace());
+        this._path = path ?? null;
+
+        given(facility, "facility").ensureIsNumber().ensure(t => Number.isInteger(t) && t >= 0 && t <= 23, "must be between 0 and 23");
+        this._facility = facility ?? 1;
+
+        given(hostname, "hostname").ensureIsString();
+        this._hostname = this._toHeaderField(hostname ?? Os.hostname(), 255);
+        this._appName = this._toHeaderField(this.service, 48);
+
+        given(structuredDataId, "structuredDataId").ensureIsString()
+            .ensure(t => /^[!#-<>-\\^-~]{1,32}$/.test(t), "must be 1 to 32 printable characters except '=', ']' and '\"'");
+        this._structuredDataId = structuredDataId ?? "fields@32473";
+
+        given(maxUdpMessageBytes, "maxUdpMessageBytes").ensureIsNumber()
+            .ensure(t => Number.isInteger(t) && t >= 480 && t <= 65507, "must be between 480 and 65507");
+        this._maxUdpMessageBytes = maxUdpMessageBytes ?? 2048;
+
+        given(reconnectIntervalSeconds, "reconnectIntervalSeconds").ensureIsNumber().ensure(t => t > 0);
+        this._reconnectInterval = Duration.fromSeconds(reconnectIntervalSeconds ?? 5);
+
+        this._fallbackLogger = config.fallback ?? null;
+    }
+
+    /**
+     * Logs a trace message to the syslog server.
+     * Only sends when the trace level is enabled.
+     * @param trace - The trace message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logTrace(trace: string, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.trace, trace, fields);
+    }
+
+    /**
+     * Logs a debug message to the syslog server.
+     * Only sends when the debug level is enabled.
+     * @param debug - The debug message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logDebug(debug: string, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.debug, debug, fields);
+    }
+
+    /**
+     * Logs an informational message to the syslog server.
+     * @param info - The informational message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logInfo(info: string, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.info, info, fields);
+    }
+
+    /**
+     * Logs a warning message or exception to the syslog server.
+     * @param warning - The warning message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logWarning(warning: string | Exception, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.warn, this.getErrorMessage(warning), fields, warning);
+    }
+
+    /**
+     * Logs an error message or exception to the syslog server.
+     * @param error - The error message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logError(error: string | Exception, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.error, this.getErrorMessage(error), fields, error);
+    }
+
+    /**
+     * Logs a fatal message or exception to the syslog server.
+     * @param fatal - The fatal message or exception to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @returns A promise that resolves when the log is sent
+     */
+    public async logFatal(fatal: string | Exception, fields?: LogFields): Promise<void>
+    {
+        await this._log(LogLevel.fatal, this.getErrorMessage(fatal), fields, fatal);
+    }
+
+    /**
+     * Disposes the logger, waiting for pending sends and closing the socket.
+     * @returns A promise that resolves when disposal is complete
+     */
+    public dispose(): Promise<void>
+    {
+        if (!this._isDisposed)
+        {
+            // summaries of suppressed records are sent before the logger stops accepting log calls
+            this.disposeRateLimiter();
+            this._isDisposed = true;
+            this._disposePromise = this._close();
+        }
+
+        return this._disposePromise!;
+    }
+
+    /**
+     * Builds a log record and sends it as a syslog frame.
+     * Does nothing if the level is not enabled or the rate limit is exceeded.
+     * @param level - The log level
+     * @param message - The message to log
+     * @param fields - Optional structured fields to attach to the log record
+     * @param exp - The logged exception, if any, serialized into the error attributes
+     */
+    private async _log(level: LogLevel, message: string, fields: LogFields | undefined, exp?: string | Exception): Promise<void>
+    {
+        if (this._isDisposedDrop())
+            return;
+
+        if (!this.isLevelEnabled(level) || this.isRateLimited(level, message))
+            return;
+
+        let log: LogRecord = this.createLogRecord(level, message, fields);
+
+        this.injectTrace(log, level === LogLevel.error || level === LogLevel.fatal);
+        this.injectError(log, exp);
+
+        if (this.logInjector)
+            log = this.logInjector(log);
+
+        await this._send(log);
+    }
+
+    /**
+     * Sends a record to the syslog server.
+     * Serialized via a mutex so frames are sent in order over a single connection.
+     * After a failure, records go to the fallback logger until the reconnect interval
+     * has passed and the server is tried again.
+     * @param log - The record to send
+     */
+    private async _send(log: LogRecord): Promise<void>
+    {
+        await this._sendMutex.lock();
+        try
+        {
+            if (this._retryAt == null || Date.now() >= this._retryAt)
+            {
+                try
+                {
+                    await this._write(this._createFrame(log));
+                    this._retryAt = null;
+                    return;
+                }
+                catch (error)
+                {
+                    this._destroySockets();
+
+                    // the failure is reported once, not for every record sent while the server is unavailable
+                    if (this._retryAt == null)
+                        await this._reportFailure(error);
+
+                    this._retryAt = Date.now() + this._reconnectInterval.toMilliSeconds();
+                }
+            }
+
+            await this._logToFallback(log);
+        }
+        finally
+        {
+            this._sendMutex.release();
+        }
+    }
+
+    /**
+     * Creates an RFC 5424 frame: PRI VERSION TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA MSG
+     * @param log - The record to create the frame for
+     * @returns The frame, without transport framing
+     */
+    private _createFrame(log: LogRecord & Record<string, any>): string
+    {
+        const priority = this._facility * 8 + (SyslogLogger._severities[log.level] ?? 3);
+
+        const params = Object.entries(log)
+            .filter(([key, value]) => value !== undefined && !SyslogLogger._mappedKeys.contains(key))
+            .map(([key, value]) => `${this._toParamName(key)}="${this._toParamValue(value)}"`);
+
+        const structuredData = params.isEmpty ? "-" : `[${this._structuredDataId} ${params.join(" ")}]`;
+
+        return `<${priority}>1 ${log.dateTime} ${this._hostname} ${this._appName} ${process.pid} - ${structuredData} ${log.message}`;
+    }
+
+    private async _write(frame: string): Promise<void>
+    {
+        if (this._transport === "udp")
+        {
+            this._udpSocket ??= Dgram.createSocket(Net.isIPv6(this._host) ? "udp6" : "udp4")
+                // send errors are reported through the send callback
+                .on("error", () => this._destroySockets())
+                .unref();
+
+            const socket = this._udpSocket;
+            const data = this._truncate(frame, this._maxUdpMessageBytes);
+            await new Promise<void>((resolve, reject) =>
+                socket.send(data, this._port, this._host, e => e != null ? reject(e) : resolve()));
+
+            return;
+        }
+
+        // octet counting keeps multi-line messages in one frame, newline delimited frames need the line breaks escaped
+        const data = this._transport === "tcp"
+            ? `${Buffer.byteLength(frame)} ${frame}`
+            : `${frame.replaceAll("\n", "#012").replaceAll("\r", "#015")}\n`;
+
+        this._socket ??= await this._connect();
+
+        const socket = this._socket;
+        await new Promise<void>((resolve, reject) => socket.write(data, e => e != null ? reject(e) : resolve()));
+    }
+
+    private _connect(): Promise<Net.Socket>
+    {
+        return new Promise<Net.Socket>((resolve, reject) =>
+        {
+            const socket = this._transport === "unix"
+                ? Net.createConnection({ path: this._path! })
+                : Net.createConnection({ host: this._host, port: this._port });
+
+            socket.setTimeout(Duration.fromSeconds(10).toMilliSeconds(),
+                () => socket.destroy(new ApplicationException("Timed out connecting to syslog server")));
+
+            const onError = (error: NodeJS.ErrnoException): void =>
+            {
+                // connecting a stream socket to a datagram socket such as /dev/log
+                if (error.code === "EPROTOTYPE")
+                    reject(new ApplicationException(`Syslog socket ${this._path} is not a stream socket, use the udp or tcp transport instead`, error));
+                else
+                    reject(error);
+            };
+
+            socket.once("error", onError);
+            socket.once("connect", () =>
+            {
+                socket.setTimeout(0);
+                socket.off("error", onError);
+                // errors after connecting are reported through the write callback
+                socket.on("error", () => socket.destroy());
+                // the next send reconnects once the server closes the connection
+                socket.once("close", () =>
+                {
+                    if (this._socket === socket)
+                        this._socket = null;
+                });
+                socket.unref();
+
+                resolve(socket);
+            });
+        });
+    }
+
+    private _destroySockets(): void
+    {
+        this._socket?.destroy();
+        this._socket = null;
+
+        this._udpSocket?.close();
+        this._udpSocket = null;
+    }
+
+    private async _close(): Promise<void>
+    {
+        await this._sendMutex.lock();
+        try
+        {
+            const socket = this._socket;
+            if (socket != null)
+                await new Promise<void>(resolve => socket.end(resolve));
+
+            this._destroySockets();
+        }
+        finally
+        {
+            this._sendMutex.release();
+        }
+    }
+
+    private async _reportFailure(error: unknown): Promise<void>
+    {
+        const warning = "Error while sending logs to syslog server. Records are sent to the fallback until the server can be reached.";
+
+        if (this._fallbackLogger != null)
+        {
+            await this._fallbackLogger.logWarning(warning);
+            await this._fallbackLogger.logError(error as any);
+        }
+        else
+        {
+            console.warn(warning);
+            console.error(error as any);
+        }
+    }
+
+    private async _logToFallback(log: LogRecord): Promise<void>
+    {
+        if (this._fallbackLogger != null)
+        {
+            switch (log.level)
+            {
+                case "Trace":
+                    await this._fallbackLogger.logTrace(log.message);
+                    break;
+                case "Debug":
+                    await this._fallbackLogger.logDebug(log.message);
+                    break;
+                case "Info":
+                    await this._fallbackLogger.logInfo(log.message);
+                    break;
+                case "Warn":
+                    await this._fallbackLogger.logWarning(log.message);
+                    break;
+                case "Error":
+                    await this._fallbackLogger.logError(log.message);
+                    break;
+                case "Fatal":
+                    await this._fallbackLogger.logFatal(log.message);
+                    break;
+                default:
+                    await this._fallbackLogger.logError(log.message);
+            }
+        }
+        else
+        {
+            switch (log.level)
+            {
+                case "Trace":
+                case "Debug":
+                case "Info":
+                    console.info(log.message);
+                    break;
+                case "Warn":
+                    console.warn(log.message);
+                    break;
+                default:
+                    console.error(log.message);
+            }
+        }
+    }
+
+    /**
+     * Returns true if the logger has been disposed and the caller should drop
+     * the record. Emits a one-shot warning to stderr the first time a log
+     * call is seen after dispose so the misuse is visible without spamming.
+     */
+    private _isDisposedDrop(): boolean
+    {
+        if (!this._isDisposed)
+            return false;
+
+        if (!this._warnedAfterDispose)
+        {
+            this._warnedAfterDispose = true;
+            console.warn("SyslogLogger: log call after dispose; message dropped. Further warnings suppressed.");
+        }
+
+        return true;
+    }
+
+    /**
+     * Truncates a frame to a maximum number of bytes, without splitting a UTF-8 character.
+     * A datagram larger than the receiver accepts would fail to send (EMSGSIZE) or be dropped.
+     * @param frame - The frame to truncate
+     * @param maxBytes - The maximum size of the frame in bytes
+     * @returns The frame as UTF-8 bytes, truncated if necessary
+     */
+    private _truncate(frame: string, maxBytes: number): Buffer
+    {
+        const data = Buffer.from(frame);
+        if (data.length <= maxBytes)
+            return data;
+
+        // step back over UTF-8 continuation bytes (10xxxxxx) to the start of the character that does not fit
+        let end = maxBytes;
+        while (end > 0 && (data[end] & 0xC0) === 0x80)
+            end--;
+
+        return data.subarray(0, end);
+    }
+
+    /**
+     * Converts a value to a header field: printable US-ASCII without spaces, at most maxLength characters
+     * @param value - The value to convert
+     * @param maxLength - The maximum length of the field
+     * @returns The header field, or the NILVALUE "-" if the value is empty
+     */
+    private _toHeaderField(value: string, maxLength: number): string
+    {
+        const field = value.replace(/[^!-~]/g, "_").substring(0, maxLength);
+
+        return field.length > 0 ? field : "-";
+    }
+
+    private _toParamName(key: string): string
+    {
+        return key.replace(/[^!-~]|[=\]"]/g, "_").substring(0, 32);
+    }
+
+    private _toParamValue(value: unknown): string
+    {
+        let text: string;
+        if (typeof value === "string")
+            text = value;
+        else if (value instanceof Date)
+            text = value.toISOString();
+        else if (value != null && typeof value === "object")
+        {
+            try
+            {
+                text = JSON.stringify(value);
+            }
+            catch
+            {
+                text = String(value);
+            }
+        }
+        else
+            text = String(value);
+
+        // '"', '\' and ']' must be escaped within a PARAM-VALUE
+        return text.replace(/["\\\]]/g, "\\$&");
+    }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { LogFormatter } from "./log-formatter.js";
+import { LogLevel } from "./log-level.js";
+import { LogPrefix } from "./log-prefix.js";
+import { LogRecord } from "./log-record.js";
+import { LogRecordFields } from "./log-record-fields.js";
+
+/**
+ * Formatter for the plain text format:
+ * `<dateTime> APP <LEVEL>: <message> key=value ...`
+ */
+export class TextLogFormatter implements LogFormatter
+{
+    private static readonly _prefixes: Readonly<Record<string, LogPrefix>> = {
+        [LogLevel.trace]: LogPrefix.trace,
+        [LogLevel.debug]: LogPrefix.debug,
+        [LogLevel.info]: LogPrefix.info,
+        [LogLevel.warn]: LogPrefix.warning,
+        [LogLevel.error]: LogPrefix.error,
+        [LogLevel.fatal]: LogPrefix.fatal
+    };
+
+
+    public get isStructured(): boolean { return false; }
+
+
+    /**
+     * Renders a log record as a plain text line with its structured fields as key=value pairs
+     * @param record - The log record to render
+     * @returns The rendered record
+     */
+    public format(record: LogRecord): string
+    {
+        const prefix = TextLogFormatter._prefixes[record.level] as LogPrefix | undefined ?? `APP ${record.level.toUpperCase()}:`;
+
+        return `${record.dateTime} ${prefix} ${record.message}${LogRecordFields.format(record)}`;
+    }
+}
\ No newline at end of file
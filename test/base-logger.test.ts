@@ -0,0 +1,170 @@
+import assert from "node:assert";
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
+import { describe, test } from "node:test";
+import { ApplicationException } from "@nivinjoseph/n-exception";
+import { DateTime } from "luxon";
+import { FileLogger, LogLevel } from "../src/index.js";
+
+
+function readLogLines(logDirPath: string): Array<string>
+{
+    return Fs.readdirSync(logDirPath)
+        .flatMap(t => Fs.readFileSync(Path.join(logDirPath, t), "utf8").split("\n"))
+        .filter(t => t.isNotEmptyOrWhiteSpace());
+}
+
+
+await describe("BaseLogger tests", async () =>
+{
+    await test("Structured fields", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const jsonLogger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true });
+            await jsonLogger.logInfo("order placed", { orderId: 42, userId: "u-1", level: "oops" });
+            await jsonLogger.dispose();
+
+            const [record] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.strictEqual(record["message"], "order placed");
+            assert.strictEqual(record["orderId"], 42);
+            assert.strictEqual(record["userId"], "u-1");
+            assert.strictEqual(record["level"], "Info");
+            assert.strictEqual(record["fields.level"], "oops");
+
+            Fs.readdirSync(logDirPath).forEach(t => Fs.unlinkSync(Path.join(logDirPath, t)));
+
+            const textLogger = new FileLogger({ logDirPath, retentionDays: 1 });
+            await textLogger.logWarning("payment declined", { orderId: 42, reason: "card expired" });
+            await textLogger.dispose();
+
+            const [line] = readLogLines(logDirPath);
+            assert.ok(line.endsWith(`APP WARNING: payment declined orderId=42 reason="card expired"`), line);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Child loggers", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true });
+            const billingLogger = logger.child({ component: "billing", tenantId: "t-1" });
+            const invoiceLogger = billingLogger.child({ tenantId: "t-2", invoiceId: 7 });
+
+            await billingLogger.logInfo("billing run started");
+            await invoiceLogger.logError("invoice failed", { invoiceId: 8 });
+            await logger.dispose();
+
+            const [billingRecord, invoiceRecord] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.strictEqual(billingRecord["component"], "billing");
+            assert.strictEqual(billingRecord["tenantId"], "t-1");
+            assert.strictEqual(invoiceRecord["component"], "billing");
+            assert.strictEqual(invoiceRecord["tenantId"], "t-2");
+            assert.strictEqual(invoiceRecord["invoiceId"], 8);
+            assert.strictEqual(invoiceRecord["level"], "Error");
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Minimum log level", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, minLevel: LogLevel.warn });
+
+            assert.strictEqual(logger.isLevelEnabled(LogLevel.debug), false);
+            assert.strictEqual(logger.isLevelEnabled(LogLevel.info), false);
+            assert.strictEqual(logger.isLevelEnabled(LogLevel.warn), true);
+            assert.strictEqual(logger.child({ component: "billing" }).isLevelEnabled(LogLevel.error), true);
+
+            await logger.logDebug("I am a debug");
+            await logger.logInfo("I am an info");
+            await logger.logWarning("I am a warning");
+            await logger.logError("I am an error");
+            await logger.dispose();
+
+            const lines = readLogLines(logDirPath);
+            assert.strictEqual(lines.length, 2);
+            assert.ok(lines[0].endsWith("APP WARNING: I am a warning"));
+            assert.ok(lines[1].endsWith("APP ERROR: I am an error"));
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("IANA time zones", async () =>
+    {
+        assert.throws(() => new FileLogger({ logDirPath: Os.tmpdir(), retentionDays: 1, logDateTimeZone: "Mars/Olympus_Mons" }));
+
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true, logDateTimeZone: "Asia/Kolkata" });
+            await logger.logInfo("I am an info");
+            await logger.dispose();
+
+            const [record] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.ok((record["dateTime"] as string).endsWith("+05:30"), record["dateTime"] as string);
+
+            const [file] = Fs.readdirSync(logDirPath);
+            assert.strictEqual(file, `${(record["dateTime"] as string).substring(0, 13)}.log`);
+            assert.strictEqual(file, `${DateTime.now().setZone("Asia/Kolkata").toFormat("yyyy-MM-dd'T'HH")}.log`);
+
+            // an empty zone falls back to UTC
+            Fs.rmSync(Path.join(logDirPath, file));
+            const emptyZoneLogger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true, logDateTimeZone: " " });
+            await emptyZoneLogger.logInfo("I am an info");
+            await emptyZoneLogger.dispose();
+
+            const [utcRecord] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.ok((utcRecord["dateTime"] as string).endsWith("Z"), utcRecord["dateTime"] as string);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Structured errors", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true });
+
+            const rootCause = new TypeError("socket hang up");
+            await logger.logError(new ApplicationException("payment failed", new Error("gateway timeout", { cause: rootCause })));
+            await logger.logWarning("plain warning");
+            await logger.dispose();
+
+            const [errorRecord, warningRecord] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, any>);
+            assert.strictEqual(errorRecord["error.kind"], "ApplicationException");
+            assert.strictEqual(errorRecord["error.message"], "payment failed");
+            assert.ok((errorRecord["error.stack"] as string).includes("payment failed"));
+            assert.strictEqual(errorRecord["error.cause"].kind, "Error");
+            assert.strictEqual(errorRecord["error.cause"].message, "gateway timeout");
+            assert.strictEqual(errorRecord["error.cause"].cause.kind, "TypeError");
+            assert.strictEqual(errorRecord["error.cause"].cause.message, "socket hang up");
+            assert.strictEqual(errorRecord["error.cause"].cause.cause, undefined);
+
+            assert.strictEqual(warningRecord["error.kind"], undefined);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+});
\ No newline at end of file
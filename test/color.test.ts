@@ -1,6 +1,6 @@
 import assert from "node:assert";
 import { describe, test } from "node:test";
-import { LogDateTimeZone, ConsoleLogger } from "../src/index.js";
+import { LogDateTimeZone, ConsoleLogger, LogLevel } from "../src/index.js";
 // import * as moment from "moment-timezone";
 
 
@@ -9,13 +9,15 @@ await describe("Color test", async () =>
 {
     await test("Test console logger colors", async () =>
     {
-        const utcLogger = new ConsoleLogger({ logDateTimeZone: LogDateTimeZone.utc });
+        const utcLogger = new ConsoleLogger({ logDateTimeZone: LogDateTimeZone.utc, minLevel: LogLevel.trace });
     
         
+        await utcLogger.logTrace("This is a trace should print in gray");
         await utcLogger.logDebug("This is a debug should print in normal color");
         await utcLogger.logWarning("This is a warning should print in yellow");
         await utcLogger.logInfo("This is a info should print in blue");
         await utcLogger.logError("This is a error should print in red");
+        await utcLogger.logFatal("This is a fatal should print in white on red");
         console.log("This should print without color, to check if the colors don't bleed");
 
         assert.ok(true);
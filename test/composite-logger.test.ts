@@ -0,0 +1,152 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import { Exception } from "@nivinjoseph/n-exception";
+import { Delay } from "@nivinjoseph/n-util";
+import { CompositeLogger, LogFields, LogLevel, Logger } from "../src/index.js";
+
+
+class MemoryLogger implements Logger
+{
+    public readonly entries = new Array<string>();
+    public disposed = false;
+
+
+    public isLevelEnabled(_level: LogLevel): boolean { return true; }
+    public async logTrace(trace: string, _fields?: LogFields): Promise<void> { this.entries.push(`Trace:${trace}`); }
+    public async logDebug(debug: string, _fields?: LogFields): Promise<void> { this.entries.push(`Debug:${debug}`); }
+    public async logInfo(info: string, _fields?: LogFields): Promise<void> { this.entries.push(`Info:${info}`); }
+    public async logWarning(warning: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Warn:${warning.toString()}`); }
+    public async logError(error: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Error:${error.toString()}`); }
+    public async logFatal(fatal: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Fatal:${fatal.toString()}`); }
+
+    public async dispose(): Promise<void>
+    {
+        this.disposed = true;
+    }
+}
+
+class FailingLogger extends MemoryLogger
+{
+    public override async logInfo(_info: string, _fields?: LogFields): Promise<void>
+    {
+        await Delay.milliseconds(10);
+        throw new Error("sink failure");
+    }
+
+    public override async dispose(): Promise<void>
+    {
+        throw new Error("dispose failure");
+    }
+}
+
+class SlowLogger extends MemoryLogger
+{
+    private readonly _gate: Promise<void>;
+    private _release: (() => void) | null = null;
+
+
+    public constructor()
+    {
+        super();
+        this._gate = new Promise<void>(resolve => this._release = resolve);
+    }
+
+
+    public release(): void
+    {
+        this._release!();
+    }
+
+    public override async logInfo(info: string, _fields?: LogFields): Promise<void>
+    {
+        await this._gate;
+        this.entries.push(`Info:${info}`);
+    }
+}
+
+await describe("CompositeLogger tests", async () =>
+{
+    await test("Fans out to sinks by level and predicate", async () =>
+    {
+        const all = new MemoryLogger();
+        const errorsOnly = new MemoryLogger();
+        const billingOnly = new MemoryLogger();
+
+        const logger = new CompositeLogger({
+            sinks: [
+                { logger: all },
+                { logger: errorsOnly, minLevel: LogLevel.error },
+                { logger: billingOnly, predicate: (_, __, fields) => fields?.["component"] === "billing" }
+            ]
+        });
+
+        await logger.logDebug("debug");
+        await logger.logInfo("info", { component: "billing" });
+        await logger.logError("error");
+        await logger.logFatal("fatal");
+
+        assert.deepStrictEqual(all.entries, ["Debug:debug", "Info:info", "Error:error", "Fatal:fatal"]);
+        assert.deepStrictEqual(errorsOnly.entries, ["Error:error", "Fatal:fatal"]);
+        assert.deepStrictEqual(billingOnly.entries, ["Info:info"]);
+    });
+
+    await test("Isolates failing sinks and disposes all disposable sinks", async () =>
+    {
+        const failing = new FailingLogger();
+        const healthy = new MemoryLogger();
+
+        const logger = new CompositeLogger({ sinks: [{ logger: failing }, { logger: healthy }] });
+
+        await logger.logInfo("info");
+        await logger.dispose();
+
+        assert.deepStrictEqual(healthy.entries, ["Info:info"]);
+        assert.strictEqual(healthy.disposed, true);
+    });
+
+    await test("Isolates a throwing predicate", async () =>
+    {
+        const skipped = new MemoryLogger();
+        const healthy = new MemoryLogger();
+
+        const logger = new CompositeLogger({
+            sinks: [
+                {
+                    logger: skipped,
+                    predicate: (): boolean => { throw new Error("predicate failure"); }
+                },
+                { logger: healthy }
+            ]
+        });
+
+        await logger.logInfo("info");
+        await logger.dispose();
+
+        assert.deepStrictEqual(skipped.entries, []);
+        assert.deepStrictEqual(healthy.entries, ["Info:info"]);
+    });
+
+    await test("Does not wait for a slow sink", async () =>
+    {
+        const slow = new SlowLogger();
+        const fast = new MemoryLogger();
+
+        const logger = new CompositeLogger({ sinks: [{ logger: slow }, { logger: fast }] });
+
+        await logger.logInfo("info");
+
+        assert.deepStrictEqual(fast.entries, ["Info:info"]);
+        assert.deepStrictEqual(slow.entries, []);
+
+        // dispose waits for the pending log call before disposing the sinks
+        const disposePromise = logger.dispose();
+        await Delay.milliseconds(10);
+        assert.strictEqual(slow.disposed, false);
+
+        slow.release();
+        await disposePromise;
+
+        assert.deepStrictEqual(slow.entries, ["Info:info"]);
+        assert.strictEqual(slow.disposed, true);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,166 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import Util from "node:util";
+import chalk from "chalk";
+import { Context, ContextManager, ROOT_CONTEXT, SpanStatus, SpanStatusCode, TraceFlags, context, trace } from "@opentelemetry/api";
+import { ConsoleLogger, LogDateTimeZone, LogLevel, LogRecord } from "../src/index.js";
+
+
+/**
+ * Minimal synchronous context manager, so a span can be made active without the OpenTelemetry SDK
+ */
+class StackContextManager implements ContextManager
+{
+    private _active: Context = ROOT_CONTEXT;
+
+
+    public active(): Context { return this._active; }
+
+    public with<A extends Array<unknown>, F extends (...args: A) => ReturnType<F>>(ctx: Context, fn: F,
+        thisArg?: ThisParameterType<F>, ...args: A): ReturnType<F>
+    {
+        const previous = this._active;
+        this._active = ctx;
+        try
+        {
+            return fn.call(thisArg, ...args);
+        }
+        finally
+        {
+            this._active = previous;
+        }
+    }
+
+    public bind<T>(_ctx: Context, target: T): T { return target; }
+    public enable(): this { return this; }
+    public disable(): this { this._active = ROOT_CONTEXT; return this; }
+}
+
+/**
+ * Collects the lines written to stdout while the action runs, without color codes unless raw
+ */
+async function captureStdout(action: () => Promise<void>, raw = false): Promise<Array<string>>
+{
+    const output = new Array<string>();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    const write = process.stdout.write;
+    process.stdout.write = (chunk: string | Uint8Array): boolean =>
+    {
+        output.push(raw ? chunk.toString() : Util.stripVTControlCharacters(chunk.toString()));
+        return true;
+    };
+
+    try
+    {
+        await action();
+    }
+    finally
+    {
+        process.stdout.write = write;
+    }
+
+    return output.join("").split("\n").filter(t => t.isNotEmptyOrWhiteSpace());
+}
+
+await describe("ConsoleLogger tests", async () =>
+{
+    await test("Writes trace and fatal records with their prefixes", async () =>
+    {
+        const logger = new ConsoleLogger({ logDateTimeZone: LogDateTimeZone.utc, minLevel: LogLevel.trace });
+
+        const lines = await captureStdout(async () =>
+        {
+            await logger.logTrace("I am a trace");
+            await logger.logFatal("I am a fatal");
+        });
+
+        assert.strictEqual(lines.length, 2);
+        assert.match(lines[0], /^\S+ APP TRACE: I am a trace$/);
+        assert.match(lines[1], /^\S+ APP FATAL: I am a fatal$/);
+    });
+
+    await test("Colors plain text by level with a bold prefix", async () =>
+    {
+        const logger = new ConsoleLogger({ logDateTimeZone: LogDateTimeZone.utc });
+
+        const level = chalk.level;
+        chalk.level = 1;
+        try
+        {
+            const lines = await captureStdout(async () =>
+            {
+                await logger.logInfo("I am an info");
+                await logger.logDebug("I am a debug");
+            }, true);
+
+            assert.strictEqual(lines.length, 2);
+            assert.ok(lines[0].startsWith("\u001b[34m"), lines[0]);
+            assert.ok(lines[0].endsWith(`${chalk.bold("APP INFO:")} I am an info\u001b[39m`), lines[0]);
+            assert.match(lines[1], /^\S+ APP DEBUG: I am a debug$/);
+        }
+        finally
+        {
+            chalk.level = level;
+        }
+    });
+
+    await test("Filters records below the minimum level", async () =>
+    {
+        const infoLogger = new ConsoleLogger({ minLevel: LogLevel.info, useJsonFormat: true });
+        const fatalLogger = new ConsoleLogger({ minLevel: LogLevel.fatal, useJsonFormat: true });
+
+        assert.strictEqual(infoLogger.isLevelEnabled(LogLevel.trace), false);
+        assert.strictEqual(fatalLogger.isLevelEnabled(LogLevel.error), false);
+        assert.strictEqual(fatalLogger.isLevelEnabled(LogLevel.fatal), true);
+
+        const lines = await captureStdout(async () =>
+        {
+            await infoLogger.logTrace("dropped trace");
+            await infoLogger.logDebug("dropped debug");
+            await infoLogger.logInfo("kept info");
+            await infoLogger.logFatal("kept fatal");
+            await fatalLogger.logError("dropped error");
+            await fatalLogger.logFatal("kept fatal");
+        });
+
+        const records = lines.map(t => JSON.parse(t) as LogRecord);
+        assert.deepStrictEqual(records.map(t => `${t.level}:${t.message}`), ["Info:kept info", "Fatal:kept fatal", "Fatal:kept fatal"]);
+    });
+
+    await test("Marks the active span as failed for fatal records", async () =>
+    {
+        const statuses = new Array<SpanStatus>();
+        const span = trace.wrapSpanContext({
+            traceId: "0af7651916cd43dd8448eb211c80319c",
+            spanId: "b7ad6b7169203331",
+            traceFlags: TraceFlags.SAMPLED
+        });
+        span.setStatus = (status): typeof span =>
+        {
+            statuses.push(status);
+            return span;
+        };
+
+        context.setGlobalContextManager(new StackContextManager());
+        try
+        {
+            const logger = new ConsoleLogger({ minLevel: LogLevel.trace, useJsonFormat: true });
+
+            const lines = await captureStdout(async () =>
+            {
+                const spanContext = trace.setSpan(context.active(), span);
+                await context.with(spanContext, () => logger.logTrace("I am a trace"));
+                await context.with(spanContext, () => logger.logFatal("I am a fatal"));
+            });
+
+            const records = lines.map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.strictEqual(records.length, 2);
+            assert.ok(records.every(t => t["trace_id"] === "0af7651916cd43dd8448eb211c80319c"));
+            assert.deepStrictEqual(statuses, [{ code: SpanStatusCode.ERROR, message: "I am a fatal" }]);
+        }
+        finally
+        {
+            context.disable();
+        }
+    });
+});
\ No newline at end of file
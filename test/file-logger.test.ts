@@ -1,6 +1,19 @@
 import assert from "node:assert";
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
 import { describe, test } from "node:test";
-import { FileLogger, LogDateTimeZone } from "../src/index.js";
+import Zlib from "node:zlib";
+import { DateTime } from "luxon";
+import { FileLogger, LogDateTimeZone, LogfmtLogFormatter } from "../src/index.js";
+
+
+function readLogLines(logDirPath: string): Array<string>
+{
+    return Fs.readdirSync(logDirPath)
+        .flatMap(t => Fs.readFileSync(Path.join(logDirPath, t), "utf8").split("\n"))
+        .filter(t => t.isNotEmptyOrWhiteSpace());
+}
 
 
 await describe("FileLogger tests", async () =>
@@ -19,6 +32,211 @@ await describe("FileLogger tests", async () =>
 
         await logger.logError("I am an error");
 
+        await logger.dispose();
+
         assert.ok(true);
     });
+
+    await test("Size based rollover and file naming", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({
+                logDirPath,
+                retentionDays: 1,
+                fileNamePrefix: "billing-",
+                rotationInterval: "daily",
+                maxFileSizeBytes: 100
+            });
+
+            for (let i = 0; i < 5; i++)
+                await logger.logInfo(`message number ${i}`);
+            await logger.dispose();
+
+            const files = Fs.readdirSync(logDirPath).orderBy();
+            assert.ok(files.length > 1, files.join());
+            assert.ok(files.every(t => /^billing-\d{4}-\d{2}-\d{2}(\.\d+)?\.log$/.test(t)), files.join());
+            assert.ok(files.every(t => Fs.statSync(Path.join(logDirPath, t)).size <= 100), files.join());
+
+            // a new instance resumes the latest file instead of starting over at the first one
+            const lastFile = files.orderBy(t => Number.parseInt(t.split(".")[1]) || 0).takeLast();
+            const restarted = new FileLogger({ logDirPath, retentionDays: 1, fileNamePrefix: "billing-", rotationInterval: "daily" });
+            await restarted.logInfo("after restart");
+            await restarted.dispose();
+
+            assert.ok(Fs.readFileSync(Path.join(logDirPath, lastFile), "utf8").endsWith("after restart"));
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Compress rotated files", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, maxFileSizeBytes: 100, compressRotated: true });
+
+            for (let i = 0; i < 5; i++)
+                await logger.logInfo(`message number ${i}`);
+
+            // compression runs in the background, dispose waits for it to complete
+            await logger.dispose();
+
+            const files = Fs.readdirSync(logDirPath);
+            const uncompressed = files.where(t => t.endsWith(".log"));
+            const compressed = files.where(t => t.endsWith(".log.gz"));
+
+            assert.strictEqual(uncompressed.length, 1, files.join());
+            assert.ok(compressed.length > 0, files.join());
+
+            const content = [...compressed.orderBy(t => Number.parseInt(t.split(".")[1]) || 0), ...uncompressed]
+                .map(t => t.endsWith(".gz")
+                    ? Zlib.gunzipSync(Fs.readFileSync(Path.join(logDirPath, t))).toString("utf8")
+                    : Fs.readFileSync(Path.join(logDirPath, t), "utf8"))
+                .join("");
+
+            for (let i = 0; i < 5; i++)
+                assert.ok(content.includes(`message number ${i}`), content);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Compress only completed files in a shared directory", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const period = DateTime.utc().toFormat("yyyy-MM-dd'T'HH");
+            const pastPeriod = DateTime.utc().minus({ hours: 1 }).toFormat("yyyy-MM-dd'T'HH");
+            Fs.writeFileSync(Path.join(logDirPath, `${pastPeriod}.log`), "past message\n");
+
+            const config = { logDirPath, retentionDays: 1, compressRotated: true, logDateTimeZone: LogDateTimeZone.utc };
+            const first = new FileLogger(config);
+            // every line goes to a new file, leaving behind the files it has written to
+            const second = new FileLogger({ ...config, maxFileSizeBytes: 1 });
+
+            await first.logInfo("first message 1");
+            await second.logInfo("second message 1");
+            await second.logInfo("second message 2");
+            await first.logInfo("first message 2");
+
+            await first.dispose();
+            await second.dispose();
+
+            // the file the first logger is still writing to is not compressed by the second
+            assert.deepStrictEqual(Fs.readdirSync(logDirPath).orderBy(),
+                [`${pastPeriod}.log.gz`, `${period}.1.log.gz`, `${period}.2.log`, `${period}.log`].orderBy());
+
+            const lines = Fs.readFileSync(Path.join(logDirPath, `${period}.log`), "utf8").split("\n").filter(t => t.isNotEmptyOrWhiteSpace());
+            assert.strictEqual(lines.length, 2);
+            assert.ok(lines[0].endsWith("first message 1"), lines[0]);
+            assert.ok(lines[1].endsWith("first message 2"), lines[1]);
+            assert.ok(Zlib.gunzipSync(Fs.readFileSync(Path.join(logDirPath, `${period}.1.log.gz`))).toString("utf8").includes("second message 1"));
+            assert.ok(Fs.readFileSync(Path.join(logDirPath, `${period}.2.log`), "utf8").includes("second message 2"));
+            assert.strictEqual(Zlib.gunzipSync(Fs.readFileSync(Path.join(logDirPath, `${pastPeriod}.log.gz`))).toString("utf8"), "past message\n");
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Buffered writes and durability", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const writeLogger = new FileLogger({ logDirPath, retentionDays: 1, fileNamePrefix: "write-" });
+
+            // by default a log call returns once its line is written
+            await writeLogger.logInfo("zeroth");
+            assert.strictEqual(readLogLines(logDirPath).length, 1);
+
+            await writeLogger.dispose();
+
+            const bufferedLogger = new FileLogger({ logDirPath, retentionDays: 1, fileNamePrefix: "buffered-",
+                durability: "none", maxBufferedLines: 3 });
+
+            await bufferedLogger.logInfo("first");
+            await bufferedLogger.logInfo("second");
+            assert.strictEqual(readLogLines(logDirPath).length, 1);
+
+            // a full buffer is written before the log call returns
+            await bufferedLogger.logInfo("third");
+            assert.strictEqual(readLogLines(logDirPath).length, 4);
+
+            await bufferedLogger.logInfo("fourth");
+            await bufferedLogger.flush();
+            assert.strictEqual(readLogLines(logDirPath).length, 5);
+
+            await bufferedLogger.dispose();
+
+            const lineLogger = new FileLogger({ logDirPath, retentionDays: 1, fileNamePrefix: "line-", durability: "line" });
+            await lineLogger.logInfo("fifth");
+            assert.strictEqual(readLogLines(logDirPath).length, 6);
+
+            await lineLogger.dispose();
+            await lineLogger.logInfo("after dispose");
+            assert.strictEqual(readLogLines(logDirPath).length, 6);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Retention purge and total size cap", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const longAgo = new Date(2000, 0, 1);
+            ["2020-01-01T00.log", "2020-01-01T00.1.log.gz", "notes.txt"].forEach(t =>
+            {
+                Fs.writeFileSync(Path.join(logDirPath, t), "old");
+                Fs.utimesSync(Path.join(logDirPath, t), longAgo, longAgo);
+            });
+
+            const hoursAgo = (hours: number): string => DateTime.utc().minus({ hours }).toFormat("yyyy-MM-dd'T'HH");
+            Fs.writeFileSync(Path.join(logDirPath, `${hoursAgo(3)}.log`), "x".repeat(1000));
+            Fs.writeFileSync(Path.join(logDirPath, `${hoursAgo(2)}.log`), "x".repeat(1000));
+
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, maxTotalSizeBytes: 1500 });
+            await logger.logInfo("I am an info");
+            await logger.dispose();
+
+            // only expired log files are purged by age, then the oldest remaining one to get within budget
+            const files = Fs.readdirSync(logDirPath).orderBy();
+            assert.deepStrictEqual(files, [`${hoursAgo(2)}.log`, `${hoursAgo(0)}.log`, "notes.txt"].orderBy());
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Custom formatter", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, formatter: new LogfmtLogFormatter() });
+            await logger.logInfo("order placed", { orderId: 42 });
+            await logger.dispose();
+
+            const [line] = readLogLines(logDirPath);
+            assert.ok(/^time=\S+ level=info msg="order placed" .* orderId=42$/.test(line), line);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
 });
\ No newline at end of file
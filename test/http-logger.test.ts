@@ -0,0 +1,180 @@
+import assert from "node:assert";
+import Http from "node:http";
+import { AddressInfo } from "node:net";
+import { describe, test } from "node:test";
+import { Exception } from "@nivinjoseph/n-exception";
+import { HttpLogger, LogFields, LogLevel, LogRecord, Logger } from "../src/index.js";
+
+
+class MemoryLogger implements Logger
+{
+    public readonly entries = new Array<string>();
+
+
+    public isLevelEnabled(_level: LogLevel): boolean { return true; }
+    public async logTrace(trace: string, _fields?: LogFields): Promise<void> { this.entries.push(`Trace:${trace}`); }
+    public async logDebug(debug: string, _fields?: LogFields): Promise<void> { this.entries.push(`Debug:${debug}`); }
+    public async logInfo(info: string, _fields?: LogFields): Promise<void> { this.entries.push(`Info:${info}`); }
+    public async logWarning(warning: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Warn:${warning.toString()}`); }
+    public async logError(error: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Error:${error.toString()}`); }
+    public async logFatal(fatal: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Fatal:${fatal.toString()}`); }
+}
+
+interface ReceivedRequest
+{
+    headers: Http.IncomingHttpHeaders;
+    body: string;
+}
+
+async function startServer(requests: Array<ReceivedRequest>, statusCode = 200): Promise<Http.Server>
+{
+    const server = Http.createServer((req, res) =>
+    {
+        let body = "";
+        req.on("data", (chunk: Buffer) => body += chunk.toString());
+        req.on("end", () =>
+        {
+            requests.push({ headers: req.headers, body });
+            res.statusCode = statusCode;
+            res.end();
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    return server;
+}
+
+function getUrl(server: Http.Server): string
+{
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+}
+
+await describe("HttpLogger tests", async () =>
+{
+    await test("Batches records as a JSON array", async () =>
+    {
+        const requests = new Array<ReceivedRequest>();
+        const server = await startServer(requests);
+
+        try
+        {
+            const logger = new HttpLogger({
+                url: getUrl(server),
+                authorization: "Bearer test-token",
+                headers: { "X-Api-Key": "abc" },
+                batchSize: 2
+            });
+
+            await logger.logInfo("I am an info");
+            await logger.logWarning("I am a warning");
+            await logger.logError("I am an error");
+
+            await logger.dispose();
+
+            assert.strictEqual(requests.length, 2);
+            assert.strictEqual(requests[0].headers["authorization"], "Bearer test-token");
+            assert.strictEqual(requests[0].headers["x-api-key"], "abc");
+            assert.strictEqual(requests[0].headers["content-type"], "application/json");
+
+            const records = requests.flatMap(t => JSON.parse(t.body) as Array<LogRecord>);
+            assert.deepStrictEqual(records.map(t => t.level), ["Info", "Warn", "Error"]);
+            assert.deepStrictEqual(records.map(t => t.message), ["I am an info", "I am a warning", "I am an error"]);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Posts records as NDJSON", async () =>
+    {
+        const requests = new Array<ReceivedRequest>();
+        const server = await startServer(requests);
+
+        try
+        {
+            const logger = new HttpLogger({
+                url: getUrl(server),
+                format: "ndjson"
+            });
+
+            await logger.logInfo("first");
+            await logger.logInfo("second");
+
+            await logger.dispose();
+
+            assert.strictEqual(requests.length, 1);
+            assert.strictEqual(requests[0].headers["content-type"], "application/x-ndjson");
+
+            const records = requests[0].body.trim().split("\n").map(t => JSON.parse(t) as LogRecord);
+            assert.deepStrictEqual(records.map(t => t.message), ["first", "second"]);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Retries a failing endpoint and then logs to the fallback", async () =>
+    {
+        const requests = new Array<ReceivedRequest>();
+        const server = await startServer(requests, 503);
+
+        try
+        {
+            const fallback = new MemoryLogger();
+            const logger = new HttpLogger({
+                url: getUrl(server),
+                maxRetries: 2,
+                fallback
+            });
+
+            await logger.logInfo("I am an info");
+            await logger.logError("I am an error");
+
+            await logger.dispose();
+
+            // the first attempt and two retries
+            assert.strictEqual(requests.length, 3);
+            assert.ok(requests.every(t => t.body === requests[0].body));
+
+            assert.strictEqual(fallback.entries.length, 5);
+            assert.strictEqual(fallback.entries[0], "Warn:Error while posting logs to http endpoint.");
+            assert.match(fallback.entries[1], /^Error:.*Log endpoint responded with status 503/);
+            assert.strictEqual(fallback.entries[2], "Warn:Original messages below");
+            assert.deepStrictEqual(fallback.entries.skip(3), ["Info:I am an info", "Error:I am an error"]);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Logs a batch that cannot be serialized to the fallback", async () =>
+    {
+        const requests = new Array<ReceivedRequest>();
+        const server = await startServer(requests);
+
+        try
+        {
+            const fallback = new MemoryLogger();
+            const logger = new HttpLogger({ url: getUrl(server), fallback });
+
+            const order: Record<string, unknown> = { id: 42 };
+            order["self"] = order;
+            await logger.logInfo("I am an info", { order });
+
+            await logger.dispose();
+
+            assert.strictEqual(requests.length, 0);
+            assert.strictEqual(fallback.entries[0], "Warn:Error while posting logs to http endpoint.");
+            assert.match(fallback.entries[1], /^Error:.*circular/i);
+            assert.deepStrictEqual(fallback.entries.skip(2), ["Warn:Original messages below", "Info:I am an info"]);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+});
\ No newline at end of file
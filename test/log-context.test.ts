@@ -0,0 +1,55 @@
+import assert from "node:assert";
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
+import { describe, test } from "node:test";
+import { FileLogger, LogContext } from "../src/index.js";
+
+
+await describe("LogContext tests", async () =>
+{
+    await test("Records logged within a context include its fields", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true });
+
+            await LogContext.run({ requestId: "r-1", userId: "u-1" }, async () =>
+            {
+                await Promise.resolve();
+                await logger.logInfo("outer");
+
+                await LogContext.run({ userId: "u-2" }, async () =>
+                {
+                    await logger.child({ component: "billing" }).logInfo("inner", { requestId: "r-override" });
+                });
+            });
+
+            await logger.logInfo("outside");
+            await logger.dispose();
+
+            assert.strictEqual(LogContext.current, null);
+
+            const records = Fs.readdirSync(logDirPath)
+                .flatMap(t => Fs.readFileSync(Path.join(logDirPath, t), "utf8").split("\n"))
+                .filter(t => t.isNotEmptyOrWhiteSpace())
+                .map(t => JSON.parse(t) as Record<string, unknown>);
+
+            assert.strictEqual(records.length, 3);
+
+            assert.strictEqual(records[0]["requestId"], "r-1");
+            assert.strictEqual(records[0]["userId"], "u-1");
+
+            assert.strictEqual(records[1]["requestId"], "r-override");
+            assert.strictEqual(records[1]["userId"], "u-2");
+            assert.strictEqual(records[1]["component"], "billing");
+
+            assert.strictEqual(records[2]["requestId"], undefined);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+});
\ No newline at end of file
@@ -0,0 +1,126 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import { DatadogLogFormatter, EcsLogFormatter, GcpLogFormatter, GelfLogFormatter, JsonLogFormatter, LogRecord, LogfmtLogFormatter, TextLogFormatter } from "../src/index.js";
+
+
+function createRecord(): LogRecord & Record<string, unknown>
+{
+    return {
+        source: "nodejs",
+        service: "billing",
+        env: "prod",
+        level: "Error",
+        message: "payment failed\n    at charge (billing.js:1:1)",
+        dateTime: "2024-01-31T08:15:30.000-05:00",
+        time: "2024-01-31T13:15:30.000Z",
+        trace_id: "4bf92f3577b34da6a3ce929d0e0e4736",
+        span_id: "00f067aa0ba902b7",
+        trace_flags: "01",
+        "error.kind": "ApplicationException",
+        "error.stack": "ApplicationException: payment failed\n    at charge (billing.js:1:1)",
+        orderId: 42,
+        reason: "card expired",
+        id: "o-42",
+        tags: { tier: "gold" }
+    };
+}
+
+
+await describe("LogFormatter tests", async () =>
+{
+    await test("Text", () =>
+    {
+        const formatter = new TextLogFormatter();
+
+        assert.strictEqual(formatter.isStructured, false);
+        assert.strictEqual(formatter.format(createRecord()),
+            `2024-01-31T08:15:30.000-05:00 APP ERROR: payment failed\n    at charge (billing.js:1:1) orderId=42 reason="card expired" id=o-42 tags={"tier":"gold"}`);
+    });
+
+    await test("JSON", () =>
+    {
+        const record = createRecord();
+
+        assert.deepStrictEqual(JSON.parse(new JsonLogFormatter().format(record)), record);
+    });
+
+    await test("logfmt", () =>
+    {
+        const line = new LogfmtLogFormatter().format(createRecord());
+
+        assert.ok(line.startsWith(`time=2024-01-31T08:15:30.000-05:00 level=error msg="payment failed\\n    at charge (billing.js:1:1)" source=nodejs service=billing`), line);
+        assert.ok(line.includes(` trace_id=4bf92f3577b34da6a3ce929d0e0e4736 `), line);
+        assert.ok(line.endsWith(` orderId=42 reason="card expired" id=o-42 tags="{\\"tier\\":\\"gold\\"}"`), line);
+        assert.ok(!line.includes("\n"), line);
+    });
+
+    await test("Elastic Common Schema", () =>
+    {
+        const record = JSON.parse(new EcsLogFormatter().format(createRecord())) as Record<string, unknown>;
+
+        assert.strictEqual(record["@timestamp"], "2024-01-31T13:15:30.000Z");
+        assert.strictEqual(record["log.level"], "error");
+        assert.strictEqual(record["source"], undefined);
+        assert.strictEqual(record["labels.source"], "nodejs");
+        assert.strictEqual(record["service.name"], "billing");
+        assert.strictEqual(record["service.environment"], "prod");
+        assert.strictEqual(record["trace.id"], "4bf92f3577b34da6a3ce929d0e0e4736");
+        assert.strictEqual(record["span.id"], "00f067aa0ba902b7");
+        assert.strictEqual(record["error.type"], "ApplicationException");
+        assert.ok((record["error.stack_trace"] as string).startsWith("ApplicationException"));
+        assert.strictEqual(record["orderId"], 42);
+        assert.strictEqual(record["dateTime"], undefined);
+    });
+
+    await test("GELF", () =>
+    {
+        const record = JSON.parse(new GelfLogFormatter("billing-1").format(createRecord())) as Record<string, unknown>;
+
+        assert.strictEqual(record["version"], "1.1");
+        assert.strictEqual(record["host"], "billing-1");
+        assert.strictEqual(record["short_message"], "payment failed");
+        assert.strictEqual(record["full_message"], "payment failed\n    at charge (billing.js:1:1)");
+        assert.strictEqual(record["timestamp"], 1706706930);
+        assert.strictEqual(record["level"], 3);
+        assert.strictEqual(record["_service"], "billing");
+        assert.strictEqual(record["_orderId"], 42);
+        assert.strictEqual(record["_id_"], "o-42");
+        assert.strictEqual(record["_tags"], `{"tier":"gold"}`);
+    });
+
+    await test("Datadog", () =>
+    {
+        const formatter = new DatadogLogFormatter({ host: "billing-1", version: "1.4.0", tags: { team: "payments" } });
+        const record = JSON.parse(formatter.format(createRecord())) as Record<string, unknown>;
+
+        assert.strictEqual(record["date"], "2024-01-31T13:15:30.000Z");
+        assert.strictEqual(record["status"], "error");
+        assert.strictEqual(record["host"], "billing-1");
+        assert.strictEqual(record["service"], "billing");
+        assert.strictEqual(record["version"], "1.4.0");
+        assert.strictEqual(record["ddsource"], "nodejs");
+        assert.strictEqual(record["ddtags"], "env:prod,version:1.4.0,team:payments");
+        assert.strictEqual(record["dd.trace_id"], "11803532876627986230");
+        assert.strictEqual(record["dd.span_id"], "67667974448284343");
+        assert.strictEqual(record["error.kind"], "ApplicationException");
+        assert.strictEqual(record["orderId"], 42);
+        assert.strictEqual(record["level"], undefined);
+        assert.strictEqual(record["source"], undefined);
+    });
+
+    await test("Google Cloud Logging", () =>
+    {
+        const record = JSON.parse(new GcpLogFormatter("acme-prod").format(createRecord())) as Record<string, unknown>;
+
+        assert.strictEqual(record["severity"], "ERROR");
+        assert.strictEqual(record["time"], "2024-01-31T13:15:30.000Z");
+        assert.strictEqual(record["logging.googleapis.com/trace"], "projects/acme-prod/traces/4bf92f3577b34da6a3ce929d0e0e4736");
+        assert.strictEqual(record["logging.googleapis.com/spanId"], "00f067aa0ba902b7");
+        assert.strictEqual(record["logging.googleapis.com/trace_sampled"], true);
+        assert.strictEqual(record["@type"], "type.googleapis.com/google.devtools.clouderrorreporting.v1beta1.ReportedErrorEvent");
+        assert.deepStrictEqual(record["serviceContext"], { service: "billing" });
+        assert.ok((record["stack_trace"] as string).startsWith("ApplicationException"));
+        assert.strictEqual(record["orderId"], 42);
+        assert.strictEqual(record["trace_id"], undefined);
+    });
+});
\ No newline at end of file
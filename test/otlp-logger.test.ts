@@ -0,0 +1,122 @@
+import assert from "node:assert";
+import Http from "node:http";
+import { AddressInfo } from "node:net";
+import { describe, test } from "node:test";
+import { ApplicationException } from "@nivinjoseph/n-exception";
+import { OtlpLogger } from "../src/index.js";
+
+
+await describe("OtlpLogger tests", async () =>
+{
+    await test("Exports records as an OTLP/HTTP JSON request", async () =>
+    {
+        const bodies = new Array<any>();
+        const server = Http.createServer((req, res) =>
+        {
+            let body = "";
+            req.on("data", (chunk: Buffer) => body += chunk.toString());
+            req.on("end", () =>
+            {
+                assert.strictEqual(req.url, "/v1/logs");
+                assert.strictEqual(req.headers["content-type"], "application/json");
+                bodies.push(JSON.parse(body));
+                res.end("{}");
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+        try
+        {
+            const logger = new OtlpLogger({
+                url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs`,
+                resourceAttributes: { "service.version": "1.2.3" }
+            });
+
+            await logger.logInfo("order placed", { orderId: 42, tags: ["new", "gold"] });
+            await logger.logError(new ApplicationException("payment failed"));
+
+            await logger.dispose();
+
+            assert.strictEqual(bodies.length, 1);
+
+            const [resourceLogs] = bodies[0].resourceLogs;
+            const resourceAttributes = new Map((resourceLogs.resource.attributes as Array<any>).map(t => [t.key, t.value]));
+            assert.ok(resourceAttributes.has("service.name"));
+            assert.ok(resourceAttributes.has("deployment.environment.name"));
+            assert.deepStrictEqual(resourceAttributes.get("service.version"), { stringValue: "1.2.3" });
+
+            const [info, error] = resourceLogs.scopeLogs[0].logRecords;
+            assert.strictEqual(info.severityNumber, 9);
+            assert.strictEqual(info.severityText, "INFO");
+            assert.deepStrictEqual(info.body, { stringValue: "order placed" });
+            assert.match(info.timeUnixNano, /^\d{19}$/);
+            assert.deepStrictEqual(info.attributes, [
+                { key: "orderId", value: { intValue: "42" } },
+                { key: "tags", value: { arrayValue: { values: [{ stringValue: "new" }, { stringValue: "gold" }] } } }
+            ]);
+
+            assert.strictEqual(error.severityNumber, 17);
+            const errorAttributes = new Map((error.attributes as Array<any>).map(t => [t.key, t.value]));
+            assert.deepStrictEqual(errorAttributes.get("exception.type"), { stringValue: "ApplicationException" });
+            assert.deepStrictEqual(errorAttributes.get("exception.message"), { stringValue: "payment failed" });
+            assert.ok(errorAttributes.has("exception.stacktrace"));
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Exports circular fields and warns about log calls after dispose", async () =>
+    {
+        const bodies = new Array<any>();
+        const server = Http.createServer((req, res) =>
+        {
+            let body = "";
+            req.on("data", (chunk: Buffer) => body += chunk.toString());
+            req.on("end", () =>
+            {
+                bodies.push(JSON.parse(body));
+                res.end("{}");
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+        const warnings = new Array<string>();
+        const warn = console.warn;
+        console.warn = (message: string): void => { warnings.push(message); };
+
+        try
+        {
+            const logger = new OtlpLogger({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs` });
+
+            const order: Record<string, unknown> = { id: 42 };
+            order["self"] = order;
+            await logger.logInfo("order placed", { order });
+
+            await logger.dispose();
+            await logger.logInfo("order shipped");
+
+            assert.strictEqual(bodies.length, 1);
+            const [info] = bodies[0].resourceLogs[0].scopeLogs[0].logRecords;
+            assert.deepStrictEqual(info.attributes, [{
+                key: "order",
+                value: {
+                    kvlistValue: {
+                        values: [
+                            { key: "id", value: { intValue: "42" } },
+                            { key: "self", value: { stringValue: "[Circular]" } }
+                        ]
+                    }
+                }
+            }]);
+
+            assert.deepStrictEqual(warnings, ["OtlpLogger: log call after dispose; message dropped. Further warnings suppressed."]);
+        }
+        finally
+        {
+            console.warn = warn;
+            server.close();
+        }
+    });
+});
\ No newline at end of file
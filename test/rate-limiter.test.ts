@@ -0,0 +1,51 @@
+import assert from "node:assert";
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
+import { describe, test } from "node:test";
+import { FileLogger } from "../src/index.js";
+
+
+function readLogLines(logDirPath: string): Array<string>
+{
+    return Fs.readdirSync(logDirPath)
+        .flatMap(t => Fs.readFileSync(Path.join(logDirPath, t), "utf8").split("\n"))
+        .filter(t => t.isNotEmptyOrWhiteSpace());
+}
+
+
+await describe("RateLimiter tests", async () =>
+{
+    await test("Rate limiting", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const logger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true, rateLimit: { maxPerWindow: 2 } });
+
+            for (let i = 0; i < 10; i++)
+                await logger.logError(`request ${i} failed after ${i * 10}ms`);
+
+            await logger.logWarning("request 1 failed after 10ms");
+            await logger.logError("database unavailable");
+
+            // dispose ends the window, which logs the summary
+            await logger.dispose();
+
+            const records = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, unknown>);
+            assert.deepStrictEqual(records.map(t => t["message"]), [
+                "request 0 failed after 0ms",
+                "request 1 failed after 10ms",
+                "request 1 failed after 10ms",
+                "database unavailable",
+                "Suppressed 8 similar messages: request 2 failed after 20ms"
+            ]);
+            assert.strictEqual(records[4]["level"], "Error");
+            assert.strictEqual(records[4]["suppressedCount"], 8);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+});
\ No newline at end of file
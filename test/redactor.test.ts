@@ -0,0 +1,56 @@
+import assert from "node:assert";
+import Fs from "node:fs";
+import Os from "node:os";
+import Path from "node:path";
+import { describe, test } from "node:test";
+import { FileLogger } from "../src/index.js";
+
+
+function readLogLines(logDirPath: string): Array<string>
+{
+    return Fs.readdirSync(logDirPath)
+        .flatMap(t => Fs.readFileSync(Path.join(logDirPath, t), "utf8").split("\n"))
+        .filter(t => t.isNotEmptyOrWhiteSpace());
+}
+
+
+await describe("Redactor tests", async () =>
+{
+    await test("Redaction", async () =>
+    {
+        const logDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        try
+        {
+            const redaction = { keys: ["password", "user.ssn"], patterns: [/sk_live_\w+/] };
+
+            const jsonLogger = new FileLogger({ logDirPath, retentionDays: 1, useJsonFormat: true, redaction });
+            await jsonLogger.logInfo("signup by jane@example.com with card 4111 1111 1111 1111, order 1234567890123", {
+                password: "hunter2",
+                user: { ssn: "123-45-6789", name: "Jane", ssnCheck: true },
+                headers: [{ authorization: "Bearer abc.def.ghi" }],
+                apiKey: "sk_live_abc123"
+            });
+            await jsonLogger.dispose();
+
+            const [record] = readLogLines(logDirPath).map(t => JSON.parse(t) as Record<string, any>);
+            assert.strictEqual(record["message"], "signup by [REDACTED] with card [REDACTED], order 1234567890123");
+            assert.strictEqual(record["password"], "[REDACTED]");
+            assert.deepStrictEqual(record["user"], { ssn: "[REDACTED]", name: "Jane", ssnCheck: true });
+            assert.deepStrictEqual(record["headers"], [{ authorization: "[REDACTED]" }]);
+            assert.strictEqual(record["apiKey"], "[REDACTED]");
+
+            Fs.readdirSync(logDirPath).forEach(t => Fs.unlinkSync(Path.join(logDirPath, t)));
+
+            const textLogger = new FileLogger({ logDirPath, retentionDays: 1, redaction: { keys: ["password"], replacement: "***" } });
+            await textLogger.logWarning("login failed for jane@example.com", { password: "hunter2" });
+            await textLogger.dispose();
+
+            const [line] = readLogLines(logDirPath);
+            assert.ok(line.endsWith("APP WARNING: login failed for *** password=***"), line);
+        }
+        finally
+        {
+            Fs.rmSync(logDirPath, { recursive: true, force: true });
+        }
+    });
+});
\ No newline at end of file
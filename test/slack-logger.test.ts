@@ -1,9 +1,100 @@
 import { ConfigurationManager } from "@nivinjoseph/n-config";
 import assert from "node:assert";
+import Fs from "node:fs";
+import Http from "node:http";
+import { AddressInfo } from "node:net";
+import Os from "node:os";
+import Path from "node:path";
 import { describe, test } from "node:test";
-import { LogDateTimeZone, SlackLogger } from "../src/index.js";
+import { Exception } from "@nivinjoseph/n-exception";
+import { LogDateTimeZone, LogFields, LogLevel, LogRecord, Logger, SlackLogger } from "../src/index.js";
 
 
+class MemoryLogger implements Logger
+{
+    public readonly entries = new Array<string>();
+
+
+    public isLevelEnabled(_level: LogLevel): boolean { return true; }
+    public async logTrace(trace: string, _fields?: LogFields): Promise<void> { this.entries.push(`Trace:${trace}`); }
+    public async logDebug(debug: string, _fields?: LogFields): Promise<void> { this.entries.push(`Debug:${debug}`); }
+    public async logInfo(info: string, _fields?: LogFields): Promise<void> { this.entries.push(`Info:${info}`); }
+    public async logWarning(warning: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Warn:${warning.toString()}`); }
+    public async logError(error: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Error:${error.toString()}`); }
+    public async logFatal(fatal: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Fatal:${fatal.toString()}`); }
+}
+
+
+interface SlackBlock
+{
+    type: string;
+    text?: { type: string; text: string; };
+    fields?: Array<{ type: string; text: string; }>;
+    elements?: Array<{ type: string; text: string; }>;
+}
+
+interface SlackPost
+{
+    channel: string;
+    text: string;
+    thread_ts?: string;
+    attachments?: Array<{ color: string; blocks: Array<SlackBlock>; }>;
+    blocks?: Array<SlackBlock>;
+}
+
+interface SlackFailure
+{
+    statusCode: number;
+    error?: string;
+}
+
+/**
+ * Starts a stand-in for the Slack Web API that collects the chat.postMessage requests it receives.
+ * Requests fail with the failure returned by getFailure, if any.
+ */
+async function startSlackServer(posts: Array<SlackPost>, getFailure: () => SlackFailure | null = () => null): Promise<Http.Server>
+{
+    const server = Http.createServer((req, res) =>
+    {
+        let body = "";
+        req.on("data", (chunk: Buffer) => body += chunk.toString());
+        req.on("end", () =>
+        {
+            // the WebClient posts form encoded arguments with objects and arrays as JSON
+            const params = Object.fromEntries(new URLSearchParams(body));
+            posts.push({
+                ...params,
+                attachments: "attachments" in params ? JSON.parse(params["attachments"]) : undefined,
+                blocks: "blocks" in params ? JSON.parse(params["blocks"]) : undefined
+            } as SlackPost);
+
+            const failure = getFailure();
+            res.statusCode = failure?.statusCode ?? 200;
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify(failure != null
+                ? { ok: false, error: failure.error ?? "internal_error" }
+                : { ok: true, channel: params["channel"], ts: `${posts.length}.000100` }));
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    return server;
+}
+
+function getSlackApiUrl(server: Http.Server): string
+{
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+}
+
+/**
+ * Gets the summary (the first section) of every message of a post
+ */
+function getSummaries(post: SlackPost): Array<string>
+{
+    return post.attachments!.map(t => t.blocks[0].text!.text);
+}
+
 function doSomethingStupid(): void
 {
     const s = 1 as any;
@@ -44,4 +135,353 @@ await describe("SlackLogger tests", async () =>
 
         assert.ok(true);
     });
+
+    await test("Bounded queue", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        const server = await startSlackServer(posts);
+
+        try
+        {
+            const createLogger = (overflowPolicy: "dropOldest" | "dropNewest" | "dropLowestLevel", batchSize = 20): SlackLogger =>
+                new SlackLogger({
+                    slackBotToken: "xoxb-test",
+                    slackBotChannel: "#logs",
+                    slackApiUrl: getSlackApiUrl(server),
+                    flushIntervalSeconds: 60,
+                    batchSize,
+                    batchDelaySeconds: 0,
+                    maxQueueLength: 3,
+                    overflowPolicy,
+                    aggregateRepeatedMessages: false
+                });
+
+            const dropSummary = "Dropped 2 messages because the queue reached its maximum length of 3.";
+
+            const dropOldestLogger = createLogger("dropOldest");
+            for (let i = 1; i <= 5; i++)
+                await dropOldestLogger.logInfo(`info ${i}`);
+            await dropOldestLogger.dispose();
+
+            assert.strictEqual(posts.length, 1);
+            assert.deepStrictEqual(getSummaries(posts[0]), [dropSummary, "info 3", "info 4", "info 5"]);
+            assert.strictEqual(posts[0].attachments![0].color, "#F1AB2A");
+            assert.ok(posts[0].attachments![0].blocks.some(t => t.fields?.some(u => u.text === "*droppedCount*\n2")));
+
+            const dropNewestLogger = createLogger("dropNewest");
+            for (let i = 1; i <= 5; i++)
+                await dropNewestLogger.logInfo(`info ${i}`);
+            await dropNewestLogger.dispose();
+
+            assert.strictEqual(posts.length, 2);
+            assert.deepStrictEqual(getSummaries(posts[1]), [dropSummary, "info 1", "info 2", "info 3"]);
+
+            // posted in batches of 2
+            const dropLowestLevelLogger = createLogger("dropLowestLevel", 2);
+            await dropLowestLevelLogger.logError("I am an error");
+            await dropLowestLevelLogger.logInfo("I am an info that is dropped");
+            await dropLowestLevelLogger.logWarning("I am a warning");
+            await dropLowestLevelLogger.logInfo("I am an info that is dropped too");
+            await dropLowestLevelLogger.logFatal("I am a fatal");
+            await dropLowestLevelLogger.dispose();
+
+            assert.strictEqual(posts.length, 4);
+            assert.deepStrictEqual(getSummaries(posts[2]), [dropSummary, "I am an error"]);
+            assert.deepStrictEqual(getSummaries(posts[3]), ["I am a warning", "I am a fatal"]);
+            assert.ok(posts.every(t => t.channel === "#logs"));
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Channel routing", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        const server = await startSlackServer(posts);
+
+        try
+        {
+            const logger = new SlackLogger({
+                slackBotToken: "xoxb-test",
+                slackBotChannel: "#logs",
+                slackApiUrl: getSlackApiUrl(server),
+                routes: [
+                    { channel: "#alerts", levels: [LogLevel.error, LogLevel.fatal] },
+                    {
+                        channel: "#deploys",
+                        predicate: (record): boolean => (record as LogRecord & Record<string, unknown>)["component"] === "deploy"
+                    }
+                ],
+                batchDelaySeconds: 0
+            });
+
+            await logger.logInfo("I am a deploy notice", { component: "deploy" });
+            await logger.logError("I am an alert");
+            await logger.logWarning("I go to the default channel");
+            // the first matching route wins
+            await logger.logFatal("I am a fatal deploy failure", { component: "deploy" });
+            await logger.logInfo("I go to the default channel too");
+
+            await logger.dispose();
+
+            // each channel is posted separately, starting with the channel of the oldest message
+            assert.deepStrictEqual(posts.map(t => t.channel), ["#deploys", "#alerts", "#logs"]);
+            assert.deepStrictEqual(getSummaries(posts[0]), ["I am a deploy notice"]);
+            assert.deepStrictEqual(getSummaries(posts[1]), ["I am an alert", "I am a fatal deploy failure"]);
+            assert.deepStrictEqual(getSummaries(posts[2]), ["I go to the default channel", "I go to the default channel too"]);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Oversized messages and field sections", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        const server = await startSlackServer(posts);
+
+        try
+        {
+            const logger = new SlackLogger({
+                slackBotToken: "xoxb-test",
+                slackBotChannel: "#logs",
+                slackApiUrl: getSlackApiUrl(server),
+                batchDelaySeconds: 0,
+                oversizedMessagePolicy: "thread",
+                aggregateRepeatedMessages: false
+            });
+
+            const stack = Array.from({ length: 200 }, (_, i) => `    at frame${i} (file.js:${i}:1)`).join("\n");
+            await logger.logError(`I am an error with a long stack <trace>\n${stack}`, { orderId: 42, customer: "acme & co" });
+
+            const manyFields = Object.fromEntries(Array.from({ length: 44 }, (_, i) => [`field${i}`, i]));
+            await logger.logInfo("I have many fields", { ...manyFields, payload: "x".repeat(2500) });
+
+            // 30 messages are split into posts that stay under the block limit
+            for (let i = 0; i < 30; i++)
+                await logger.logInfo(`I am info ${i}`, { index: i });
+
+            await logger.dispose();
+
+            const messagePosts = posts.where(t => t.thread_ts == null);
+            messagePosts.forEach(post =>
+            {
+                const blocks = post.attachments!.flatMap(t => t.blocks);
+                assert.ok(post.attachments!.length <= 20);
+                assert.ok(blocks.length <= 50);
+                assert.ok(blocks.every(t => t.text == null || t.text.text.length <= 3000));
+                assert.ok(blocks.every(t => t.fields == null || (t.fields.length <= 10 && t.fields.every(u => u.text.length <= 2000))));
+            });
+            assert.deepStrictEqual(messagePosts.flatMap(t => getSummaries(t)), [
+                "I am an error with a long stack &lt;trace&gt;",
+                "I have many fields",
+                ...Array.from({ length: 30 }, (_, i) => `I am info ${i}`)
+            ]);
+            assert.ok(messagePosts.length > 2);
+
+            // the stack is a code block, truncated at a line break
+            const [summary, code, fields, context] = messagePosts[0].attachments![0].blocks;
+            assert.strictEqual(summary.type, "section");
+            assert.match(code.text!.text, /^``` {4}at frame0 \(file\.js:0:1\)\n[^]*:1\)\n… \d+ characters truncated```$/);
+            assert.deepStrictEqual(fields.fields!.map(t => t.text).skip(1), ["*orderId*\n42", "*customer*\n\"acme &amp; co\""]);
+            assert.strictEqual(context.type, "context");
+
+            // at most 4 field sections of 10 fields, with the remaining fields counted in the last one
+            const fieldSections = messagePosts[0].attachments![1].blocks.where(t => t.fields != null);
+            assert.strictEqual(fieldSections.length, 4);
+            assert.ok(fieldSections.every(t => t.fields!.length === 10));
+            assert.strictEqual(fieldSections[3].fields![9].text, "*…*\n7 more fields");
+
+            // the full text of the truncated message is posted as a threaded reply
+            const replies = posts.where(t => t.thread_ts != null);
+            assert.strictEqual(replies.length, 1);
+            assert.strictEqual(replies[0].thread_ts, "1.000100");
+            assert.strictEqual(replies[0].blocks!.map(t => t.text!.text.slice(3, -3)).join(""),
+                `I am an error with a long stack &lt;trace&gt;\n${stack}`);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Repeated messages", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        const server = await startSlackServer(posts);
+
+        try
+        {
+            const logger = new SlackLogger({
+                slackBotToken: "xoxb-test",
+                slackBotChannel: "#logs",
+                slackApiUrl: getSlackApiUrl(server)
+            });
+
+            const errors = Array.from({ length: 25 }, (_, i) => new Error(`Timeout after ${1000 + i}ms for order ${i}`));
+            for (const error of errors)
+                await logger.logError(error as any);
+
+            await logger.dispose();
+
+            // posted once with the number of occurrences and the stack of the first occurrence
+            assert.strictEqual(posts.length, 1);
+            assert.strictEqual(posts[0].attachments!.length, 1);
+
+            const [summary, code, , context] = posts[0].attachments![0].blocks;
+            assert.match(summary.text!.text, /Timeout after 1000ms for order 0$/);
+            const firstStack = errors[0].stack!.split("\n").skip(1).join("\n").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+            assert.strictEqual(code.text!.text, `\`\`\`${firstStack}\`\`\``);
+            assert.match(context.elements![0].text, / · ×25 between \d{2}:\d{2}:\d{2} and \d{2}:\d{2}:\d{2}$/);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Spool replay", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        let failure: SlackFailure | null = null;
+        const server = await startSlackServer(posts, () => failure);
+        const spoolDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-spool-"));
+
+        try
+        {
+            const createLogger = (fallback?: Logger, spoolMaxAgeHours?: number): SlackLogger => new SlackLogger({
+                slackBotToken: "xoxb-test",
+                slackBotChannel: "#logs",
+                slackApiUrl: getSlackApiUrl(server),
+                fallback,
+                maxRetries: 1,
+                spoolDirPath,
+                spoolMaxAgeHours
+            });
+
+            // a permanent error is not retried and goes to the fallback rather than the spool
+            failure = { statusCode: 200, error: "channel_not_found" };
+            const permanentFallback = new MemoryLogger();
+            const permanentLogger = createLogger(permanentFallback);
+            await permanentLogger.logError("I am an error for a missing channel");
+            await permanentLogger.dispose();
+
+            assert.strictEqual(posts.length, 1);
+            assert.deepStrictEqual(Fs.readdirSync(spoolDirPath), []);
+            assert.deepStrictEqual(permanentFallback.entries.skip(2),
+                ["Warn:Original messages below", "Error:I am an error for a missing channel"]);
+
+            // a server error is retried, then the messages are spooled
+            failure = { statusCode: 503 };
+            const retryableFallback = new MemoryLogger();
+            const retryableLogger = createLogger(retryableFallback);
+            await retryableLogger.logError("I am an error that is spooled");
+            await retryableLogger.dispose();
+
+            assert.strictEqual(posts.length, 3);
+            assert.strictEqual(Fs.readdirSync(spoolDirPath).length, 1);
+            assert.strictEqual(retryableFallback.entries.length, 2);
+            assert.strictEqual(retryableFallback.entries[0],
+                "Warn:Error while posting to slack. Messages are persisted to the spool directory to be replayed.");
+
+            // a new logger replays the spooled messages ahead of its own
+            failure = null;
+            const replayLogger = createLogger();
+            await replayLogger.logInfo("I am an info posted after the replayed error");
+            await replayLogger.dispose();
+
+            assert.strictEqual(posts.length, 4);
+            assert.deepStrictEqual(getSummaries(posts[3]), ["I am an error that is spooled", "I am an info posted after the replayed error"]);
+            assert.deepStrictEqual(Fs.readdirSync(spoolDirPath), []);
+
+            // messages logged before the maximum age are dropped, even when their file was written recently
+            const message = {
+                source: "nodejs",
+                service: "n-log",
+                env: "dev",
+                level: "Error",
+                message: "I am an error logged too long ago",
+                dateTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+                time: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+                color: "#EF401D",
+                channel: "#logs"
+            };
+            Fs.writeFileSync(Path.join(spoolDirPath, `slack-${Date.now()}-1-0.json`), JSON.stringify([message]));
+
+            const expiryLogger = createLogger(undefined, 1);
+            await expiryLogger.logInfo("I am an info");
+            await expiryLogger.dispose();
+
+            assert.strictEqual(posts.length, 5);
+            assert.deepStrictEqual(getSummaries(posts[4]), ["I am an info"]);
+            assert.deepStrictEqual(Fs.readdirSync(spoolDirPath), []);
+        }
+        finally
+        {
+            server.close();
+            Fs.rmSync(spoolDirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Spool cleanup", async () =>
+    {
+        const posts = new Array<SlackPost>();
+        const server = await startSlackServer(posts);
+        const spoolDirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-spool-"));
+
+        try
+        {
+            const now = Date.now();
+            const createMessage = (message: string): Record<string, string> => ({
+                source: "nodejs",
+                service: "n-log",
+                env: "dev",
+                level: "Error",
+                message,
+                dateTime: new Date(now).toISOString(),
+                time: new Date(now).toISOString(),
+                color: "#EF401D",
+                channel: "#logs"
+            });
+            const writeFile = (fileName: string, message: string): number =>
+            {
+                const content = JSON.stringify([createMessage(message)]);
+                Fs.writeFileSync(Path.join(spoolDirPath, fileName), content);
+                return Buffer.byteLength(content);
+            };
+
+            // left behind by processes that crashed while writing and taking files
+            writeFile(`slack-${now - 2 * 60 * 60 * 1000}-1-0.json.tmp`, "I am a stale partial error");
+            writeFile(`slack-${now - 2 * 60 * 60 * 1000}-1-1.json.1.claimed`, "I am a stale claimed error");
+            // being written by another process
+            const partialSize = writeFile(`slack-${now}-2-0.json.tmp`, "I am a partial error");
+            writeFile(`slack-${now - 1000}-1-2.json`, "I am an error over the maximum size");
+            const size = writeFile(`slack-${now}-1-3.json`, "I am an error within the maximum size");
+
+            const logger = new SlackLogger({
+                slackBotToken: "xoxb-test",
+                slackBotChannel: "#logs",
+                slackApiUrl: getSlackApiUrl(server),
+                spoolDirPath,
+                spoolMaxAgeHours: 1,
+                spoolMaxSizeBytes: partialSize + size
+            });
+
+            assert.deepStrictEqual(Fs.readdirSync(spoolDirPath).sort(), [`slack-${now}-1-3.json`, `slack-${now}-2-0.json.tmp`]);
+
+            await logger.dispose();
+
+            assert.strictEqual(posts.length, 1);
+            assert.deepStrictEqual(getSummaries(posts[0]), ["I am an error within the maximum size"]);
+            assert.deepStrictEqual(Fs.readdirSync(spoolDirPath), [`slack-${now}-2-0.json.tmp`]);
+        }
+        finally
+        {
+            server.close();
+            Fs.rmSync(spoolDirPath, { recursive: true, force: true });
+        }
+    });
 });
\ No newline at end of file
@@ -0,0 +1,223 @@
+import assert from "node:assert";
+import Dgram from "node:dgram";
+import Fs from "node:fs";
+import Net from "node:net";
+import Os from "node:os";
+import Path from "node:path";
+import { describe, test } from "node:test";
+import { Exception } from "@nivinjoseph/n-exception";
+import { Delay } from "@nivinjoseph/n-util";
+import { LogFields, LogLevel, Logger, SyslogLogger } from "../src/index.js";
+
+
+class MemoryLogger implements Logger
+{
+    public readonly entries = new Array<string>();
+
+
+    public isLevelEnabled(_level: LogLevel): boolean { return true; }
+    public async logTrace(trace: string, _fields?: LogFields): Promise<void> { this.entries.push(`Trace:${trace}`); }
+    public async logDebug(debug: string, _fields?: LogFields): Promise<void> { this.entries.push(`Debug:${debug}`); }
+    public async logInfo(info: string, _fields?: LogFields): Promise<void> { this.entries.push(`Info:${info}`); }
+    public async logWarning(warning: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Warn:${warning.toString()}`); }
+    public async logError(error: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Error:${error.toString()}`); }
+    public async logFatal(fatal: string | Exception, _fields?: LogFields): Promise<void> { this.entries.push(`Fatal:${fatal.toString()}`); }
+}
+
+/**
+ * Starts a stream server that collects the received data and keeps track of the open connections
+ */
+async function startStreamServer(received: Array<string>, connections: Array<Net.Socket>,
+    listen: (server: Net.Server, callback: () => void) => void): Promise<Net.Server>
+{
+    const server = Net.createServer(socket =>
+    {
+        connections.push(socket);
+        socket.on("data", (chunk: Buffer) => received.push(chunk.toString()));
+    });
+
+    await new Promise<void>(resolve => listen(server, resolve));
+
+    return server;
+}
+
+/**
+ * Splits octet counted data ("MSG-LEN SP SYSLOG-MSG") into its frames
+ */
+function parseOctetCounted(data: string): Array<string>
+{
+    const buffer = Buffer.from(data);
+    const frames = new Array<string>();
+
+    let offset = 0;
+    while (offset < buffer.length)
+    {
+        const space = buffer.indexOf(" ", offset);
+        const length = Number.parseInt(buffer.subarray(offset, space).toString());
+        frames.push(buffer.subarray(space + 1, space + 1 + length).toString());
+        offset = space + 1 + length;
+    }
+
+    return frames;
+}
+
+await describe("SyslogLogger tests", async () =>
+{
+    await test("Sends RFC 5424 frames over UDP", async () =>
+    {
+        const received = new Array<string>();
+        const server = Dgram.createSocket("udp4");
+        server.on("message", (msg: Buffer) => received.push(msg.toString()));
+        await new Promise<void>(resolve => server.bind(0, "127.0.0.1", resolve));
+
+        try
+        {
+            const logger = new SyslogLogger({
+                host: "127.0.0.1",
+                port: server.address().port,
+                facility: 16,
+                hostname: "web 01"
+            });
+
+            await logger.logInfo("order placed", { orderId: 42, note: "say \"hi\" [ok]" });
+            await logger.logError("payment failed");
+            await logger.dispose();
+
+            await Delay.milliseconds(100);
+
+            assert.strictEqual(received.length, 2);
+            assert.match(received[0],
+                /^<134>1 \S+ web_01 \S+ \d+ - \[fields@32473 orderId="42" note="say \\"hi\\" \[ok\\]"\] order placed$/);
+            assert.match(received[1], /^<131>1 \S+ web_01 \S+ \d+ - - payment failed$/);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Truncates UDP frames to the maximum size", async () =>
+    {
+        const received = new Array<Buffer>();
+        const server = Dgram.createSocket("udp4");
+        server.on("message", (msg: Buffer) => received.push(msg));
+        await new Promise<void>(resolve => server.bind(0, "127.0.0.1", resolve));
+
+        try
+        {
+            const fallback = new MemoryLogger();
+            const logger = new SyslogLogger({ host: "127.0.0.1", port: server.address().port, maxUdpMessageBytes: 1000, fallback });
+
+            // a frame beyond the maximum UDP payload, with a multi-byte character across the limit
+            await logger.logError(`${"x".repeat(900)}${"é".repeat(70000)}`);
+            await logger.logInfo("short message");
+            await logger.dispose();
+
+            await Delay.milliseconds(100);
+
+            assert.deepStrictEqual(fallback.entries, []);
+            assert.strictEqual(received.length, 2);
+            assert.ok(received[0].length <= 1000 && received[0].length >= 999, received[0].length.toString());
+            assert.ok(received[0].toString().endsWith("é"));
+            assert.match(received[1].toString(), / short message$/);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Frames with octet counting over TCP and reconnects", async () =>
+    {
+        const received = new Array<string>();
+        const connections = new Array<Net.Socket>();
+        const server = await startStreamServer(received, connections, (t, callback) => t.listen(0, "127.0.0.1", callback));
+
+        try
+        {
+            const logger = new SyslogLogger({
+                transport: "tcp",
+                host: "127.0.0.1",
+                port: (server.address() as Net.AddressInfo).port
+            });
+
+            await logger.logInfo("first message");
+            await logger.logWarning("second message");
+            await Delay.milliseconds(100);
+
+            // the server drops the connection, the next send opens a new one
+            connections.forEach(t => t.destroy());
+            await Delay.milliseconds(100);
+
+            await logger.logInfo("third message");
+            await logger.logError("fourth message\n    at charge (billing.js:1:1)");
+            await logger.dispose();
+            await Delay.milliseconds(100);
+
+            const frames = parseOctetCounted(received.join(""));
+            assert.strictEqual(connections.length, 2);
+            assert.strictEqual(frames.length, 4);
+            assert.match(frames[0], /^<14>1 .* first message$/);
+            assert.match(frames[1], /^<12>1 .* second message$/);
+            assert.match(frames[2], /^<14>1 .* third message$/);
+            assert.match(frames[3], /^<11>1 .* fourth message\n {4}at charge \(billing\.js:1:1\)$/);
+        }
+        finally
+        {
+            server.close();
+        }
+    });
+
+    await test("Sends newline delimited frames over a Unix socket", async () =>
+    {
+        const dirPath = Fs.mkdtempSync(Path.join(Os.tmpdir(), "n-log-"));
+        const received = new Array<string>();
+        const server = await startStreamServer(received, [], (t, callback) => t.listen(Path.join(dirPath, "log.sock"), callback));
+
+        try
+        {
+            // the unix transport has no default path, as /dev/log is usually a datagram socket
+            assert.throws(() => new SyslogLogger({ transport: "unix" }));
+
+            const logger = new SyslogLogger({ transport: "unix", path: Path.join(dirPath, "log.sock") });
+
+            await logger.logInfo("first message");
+            await logger.logError("second message\r\n    at charge (billing.js:1:1)");
+            await logger.dispose();
+            await Delay.milliseconds(100);
+
+            // line breaks are escaped so a multi-line message stays a single record
+            const frames = received.join("").split("\n");
+            assert.strictEqual(frames.length, 3);
+            assert.match(frames[0], /^<14>1 .* first message$/);
+            assert.match(frames[1], /^<11>1 .* second message#015#012 {4}at charge \(billing\.js:1:1\)$/);
+            assert.strictEqual(frames[2], "");
+        }
+        finally
+        {
+            server.close();
+            Fs.rmSync(dirPath, { recursive: true, force: true });
+        }
+    });
+
+    await test("Falls back while the server is unavailable", async () =>
+    {
+        // a port that was just released has no listener
+        const server = Net.createServer();
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        const port = (server.address() as Net.AddressInfo).port;
+        await new Promise(resolve => server.close(resolve));
+
+        const fallback = new MemoryLogger();
+        const logger = new SyslogLogger({ transport: "tcp", host: "127.0.0.1", port, fallback });
+
+        await logger.logInfo("first message");
+        await logger.logError("second message");
+        await logger.dispose();
+
+        assert.strictEqual(fallback.entries.length, 4);
+        assert.ok(fallback.entries[0].startsWith("Warn:Error while sending logs to syslog server"));
+        assert.ok(fallback.entries[1].startsWith("Error:"));
+        assert.deepStrictEqual(fallback.entries.skip(2), ["Info:first message", "Error:second message"]);
+    });
+});
\ No newline at end of file